@@ -0,0 +1,292 @@
+import { Router } from 'itty-router';
+
+/** A key as the admin route shows it. The key itself is only stored hashed. */
+export type ApiKeyInfo = {
+	id: string;
+	name: string;
+	// Missing limits are unlimited
+	maxConnections?: number;
+	maxStreams?: number;
+	// Channel IDs the key may connect to, or every channel when missing
+	channels?: string[];
+	createdAt: number;
+	revokedAt?: number;
+	// Leases held right now
+	connections: number;
+	streams: number;
+};
+
+export type NewApiKey = Pick<
+	ApiKeyInfo,
+	'name' | 'maxConnections' | 'maxStreams' | 'channels'
+>;
+
+/** Asks for one connection to `stream` (a video ID, or `channel:<id>` when following). */
+export type LeaseRequest = {
+	key: string;
+	stream: string;
+	channelId: string | null;
+};
+
+type KeyRow = {
+	id: string;
+	name: string;
+	max_connections: number | null;
+	max_streams: number | null;
+	channels: string | null;
+	created_at: number;
+	revoked_at: number | null;
+};
+
+export const API_KEY_PREFIX = 'ytc_';
+
+/**
+ * API keys and the connections made with them. Every connection holds a lease
+ * that its chat Durable Object renews while the client is connected, so keys
+ * can be limited in how many connections and streams they use at once. Leases
+ * that stop being renewed, after a crash, run out on their own.
+ */
+export class ApiKeys implements DurableObject {
+	public static readonly LEASE_TTL_MS = 2 * 60_000;
+	// Run out leases stop counting against their key, but are kept this long so
+	// renewals that were held up take them back instead of losing the connection
+	private static readonly LEASE_FORGET_MS = 60 * 60_000;
+
+	constructor(private state: DurableObjectState) {
+		state.storage.sql.exec(`CREATE TABLE IF NOT EXISTS api_keys (
+			id TEXT PRIMARY KEY,
+			key_hash TEXT NOT NULL UNIQUE,
+			name TEXT NOT NULL,
+			max_connections INTEGER,
+			max_streams INTEGER,
+			channels TEXT,
+			created_at INTEGER NOT NULL,
+			revoked_at INTEGER
+		)`);
+		state.storage.sql.exec(`CREATE TABLE IF NOT EXISTS leases (
+			id TEXT PRIMARY KEY,
+			key_id TEXT NOT NULL,
+			stream TEXT NOT NULL,
+			expires_at INTEGER NOT NULL
+		)`);
+	}
+
+	async fetch(req: Request): Promise<Response> {
+		const r = Router();
+		r.post('/verify', (req: Request) => this.handleVerify(req));
+		r.post('/acquire', (req: Request) => this.handleAcquire(req));
+		r.post('/renew', (req: Request) => this.handleRenew(req));
+		r.post('/release', (req: Request) => this.handleRelease(req));
+		r.get('/keys', () => this.handleListKeys());
+		r.post('/keys', (req: Request) => this.handleCreateKey(req));
+		r.delete('/keys/:id', (req: Request & { params: { id: string } }) =>
+			this.handleRevokeKey(req.params.id)
+		);
+		r.all('*', () => new Response('Not found', { status: 404 }));
+		return r.handle(req);
+	}
+
+	/** Checks a key before anything is scraped for it, without taking a lease. */
+	private async handleVerify(req: Request): Promise<Response> {
+		const { key } = await req.json<{ key: string }>();
+		const row = await this.findKey(key);
+		if (row instanceof Response) return row;
+		return new Response(null, { status: 204 });
+	}
+
+	private async handleAcquire(req: Request): Promise<Response> {
+		const { key, stream, channelId } = await req.json<LeaseRequest>();
+		const row = await this.findKey(key);
+		if (row instanceof Response) return row;
+
+		if (row.channels) {
+			const channels: string[] = JSON.parse(row.channels);
+			if (!channelId || !channels.includes(channelId)) {
+				return new Response('This API key may not connect to this channel', {
+					status: 403,
+				});
+			}
+		}
+
+		this.dropExpired();
+		const held = this.activeLeases(row.id);
+		if (row.max_connections !== null && held.length >= row.max_connections) {
+			return new Response(
+				`This API key is limited to ${row.max_connections} connections`,
+				{ status: 429 }
+			);
+		}
+		const streams = new Set(held.map((lease) => lease.stream));
+		if (
+			row.max_streams !== null &&
+			!streams.has(stream) &&
+			streams.size >= row.max_streams
+		) {
+			return new Response(
+				`This API key is limited to ${row.max_streams} streams`,
+				{ status: 429 }
+			);
+		}
+
+		const lease = crypto.randomUUID();
+		this.state.storage.sql.exec(
+			'INSERT INTO leases (id, key_id, stream, expires_at) VALUES (?, ?, ?, ?)',
+			lease,
+			row.id,
+			stream,
+			Date.now() + ApiKeys.LEASE_TTL_MS
+		);
+		return Response.json({ lease });
+	}
+
+	/**
+	 * Extends the leases of connected clients, taking back ones that ran out
+	 * while renewals were held up, and names the ones whose key was revoked.
+	 */
+	private async handleRenew(req: Request): Promise<Response> {
+		const { leases } = await req.json<{ leases: string[] }>();
+		this.dropExpired();
+		const sql = this.state.storage.sql;
+		const expiresAt = Date.now() + ApiKeys.LEASE_TTL_MS;
+		const revoked: string[] = [];
+		for (const lease of leases) {
+			const [row] = sql
+				.exec<{ revoked_at: number | null }>(
+					'SELECT api_keys.revoked_at FROM leases JOIN api_keys ON api_keys.id = leases.key_id WHERE leases.id = ?',
+					lease
+				)
+				.toArray();
+			if (row && row.revoked_at !== null) {
+				revoked.push(lease);
+				sql.exec('DELETE FROM leases WHERE id = ?', lease);
+				continue;
+			}
+			sql.exec(
+				'UPDATE leases SET expires_at = ? WHERE id = ?',
+				expiresAt,
+				lease
+			);
+		}
+		return Response.json({ revoked });
+	}
+
+	private async handleRelease(req: Request): Promise<Response> {
+		const { leases } = await req.json<{ leases: string[] }>();
+		for (const lease of leases) {
+			this.state.storage.sql.exec('DELETE FROM leases WHERE id = ?', lease);
+		}
+		return new Response(null, { status: 204 });
+	}
+
+	private handleListKeys(): Response {
+		this.dropExpired();
+		const rows = this.state.storage.sql
+			.exec<KeyRow>(
+				'SELECT id, name, max_connections, max_streams, channels, created_at, revoked_at FROM api_keys ORDER BY created_at'
+			)
+			.toArray();
+		return Response.json(rows.map((row) => this.toInfo(row)));
+	}
+
+	/** Creates a key, returning it in full this once. */
+	private async handleCreateKey(req: Request): Promise<Response> {
+		const input = await req.json<NewApiKey>();
+		const key =
+			API_KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(24)));
+		const row: KeyRow = {
+			id: crypto.randomUUID(),
+			name: input.name,
+			max_connections: input.maxConnections ?? null,
+			max_streams: input.maxStreams ?? null,
+			channels: input.channels ? JSON.stringify(input.channels) : null,
+			created_at: Date.now(),
+			revoked_at: null,
+		};
+		this.state.storage.sql.exec(
+			'INSERT INTO api_keys (id, key_hash, name, max_connections, max_streams, channels, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+			row.id,
+			await hashKey(key),
+			row.name,
+			row.max_connections,
+			row.max_streams,
+			row.channels,
+			row.created_at
+		);
+		return Response.json({ ...this.toInfo(row), key }, { status: 201 });
+	}
+
+	/**
+	 * Revokes a key. Its leases are kept until they are next renewed, which
+	 * closes their connections.
+	 */
+	private handleRevokeKey(id: string): Response {
+		const { rowsWritten } = this.state.storage.sql.exec(
+			'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+			Date.now(),
+			id
+		);
+		if (rowsWritten === 0) {
+			return new Response('API key not found', { status: 404 });
+		}
+		return new Response(null, { status: 204 });
+	}
+
+	private async findKey(key: string): Promise<KeyRow | Response> {
+		const [row] = this.state.storage.sql
+			.exec<KeyRow>(
+				'SELECT id, name, max_connections, max_streams, channels, created_at, revoked_at FROM api_keys WHERE key_hash = ?',
+				await hashKey(key)
+			)
+			.toArray();
+		if (!row) return new Response('Invalid API key', { status: 401 });
+		if (row.revoked_at !== null) {
+			return new Response('This API key has been revoked', { status: 403 });
+		}
+		return row;
+	}
+
+	private dropExpired() {
+		this.state.storage.sql.exec(
+			'DELETE FROM leases WHERE expires_at < ?',
+			Date.now() - ApiKeys.LEASE_FORGET_MS
+		);
+	}
+
+	/** The leases counting against a key's limits. */
+	private activeLeases(keyId: string): { stream: string }[] {
+		return this.state.storage.sql
+			.exec<{ stream: string }>(
+				'SELECT stream FROM leases WHERE key_id = ? AND expires_at >= ?',
+				keyId,
+				Date.now()
+			)
+			.toArray();
+	}
+
+	private toInfo(row: KeyRow): ApiKeyInfo {
+		const leases = this.activeLeases(row.id);
+		return {
+			id: row.id,
+			name: row.name,
+			maxConnections: row.max_connections ?? undefined,
+			maxStreams: row.max_streams ?? undefined,
+			channels: row.channels ? JSON.parse(row.channels) : undefined,
+			createdAt: row.created_at,
+			revokedAt: row.revoked_at ?? undefined,
+			connections: leases.length,
+			streams: new Set(leases.map((lease) => lease.stream)).size,
+		};
+	}
+}
+
+async function hashKey(key: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(key)
+	);
+	return toHex(new Uint8Array(digest));
+}
+
+function toHex(bytes: Uint8Array): string {
+	return [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
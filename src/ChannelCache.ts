@@ -0,0 +1,67 @@
+import { Router } from 'itty-router';
+import { ChannelLives, fetchChannelLives } from '@util/channels';
+import { Result } from '@util/types';
+
+type CachedLives = { lives: ChannelLives; expiresAt: number };
+
+/**
+ * Caches one channel's live streams, so clients connecting to the same
+ * channel don't each scrape it. There is one per channel, named by
+ * resolveChannelLives, and lookups that arrive together share one scrape.
+ */
+export class ChannelCache implements DurableObject {
+	// A channel going live is picked up within this long
+	private static readonly LIVE_TTL_MS = 60_000;
+	// Checked more often while nothing is live, since clients are usually waiting for it
+	private static readonly OFFLINE_TTL_MS = 20_000;
+
+	private scrape: Promise<Result<ChannelLives, [string, number]>> | null = null;
+
+	constructor(private state: DurableObjectState) {}
+
+	async fetch(req: Request): Promise<Response> {
+		const r = Router();
+		r.get('/lives', (req: Request) => this.handleLives(req));
+		r.all('*', () => new Response('Not found', { status: 404 }));
+		return r.handle(req);
+	}
+
+	private async handleLives(req: Request): Promise<Response> {
+		const channel = new URL(req.url).searchParams.get('channel');
+		if (!channel) return new Response('Missing channel', { status: 400 });
+
+		const cached = await this.state.storage.get<CachedLives>('lives');
+		if (cached && cached.expiresAt > Date.now()) return json(cached.lives);
+
+		this.scrape ??= this.refresh(channel).finally(() => {
+			this.scrape = null;
+		});
+		const lives = await this.scrape;
+		if (lives.isErr()) {
+			const [message, status] = lives.error;
+			return new Response(message, { status });
+		}
+		return json(lives.value);
+	}
+
+	private async refresh(
+		channel: string
+	): Promise<Result<ChannelLives, [string, number]>> {
+		const lives = await fetchChannelLives(channel);
+		if (lives.isErr()) return lives;
+		const ttl = lives.value.streams.length
+			? ChannelCache.LIVE_TTL_MS
+			: ChannelCache.OFFLINE_TTL_MS;
+		await this.state.storage.put<CachedLives>('lives', {
+			lives: lives.value,
+			expiresAt: Date.now() + ttl,
+		});
+		return lives;
+	}
+}
+
+function json(lives: ChannelLives): Response {
+	return new Response(JSON.stringify(lives), {
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
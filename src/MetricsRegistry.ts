@@ -0,0 +1,65 @@
+import { Router } from 'itty-router';
+import {
+	formatOpenMetrics,
+	MetricSnapshot,
+	OPENMETRICS_CONTENT_TYPE,
+	withLabels,
+} from './metrics';
+
+export type MetricsReport = { stream: string; metrics: MetricSnapshot };
+
+/**
+ * Collects each stream's latest metrics, so `/metrics` can be scraped with
+ * one request instead of one per Durable Object. Streams report themselves
+ * while they poll, see YoutubeChatV4.reportMetrics.
+ */
+export class MetricsRegistry implements DurableObject {
+	// Streams that stopped reporting this long ago have ended, or lost their clients
+	private static readonly STALE_MS = 15 * 60_000;
+
+	constructor(private state: DurableObjectState) {
+		state.storage.sql.exec(`CREATE TABLE IF NOT EXISTS stream_metrics (
+			stream TEXT PRIMARY KEY,
+			metrics TEXT NOT NULL,
+			reported_at INTEGER NOT NULL
+		)`);
+	}
+
+	async fetch(req: Request): Promise<Response> {
+		const r = Router();
+		r.post('/report', (req: Request) => this.handleReport(req));
+		r.get('/metrics', () => this.handleMetrics());
+		r.all('*', () => new Response('Not found', { status: 404 }));
+		return r.handle(req);
+	}
+
+	private async handleReport(req: Request): Promise<Response> {
+		const { stream, metrics } = await req.json<MetricsReport>();
+		this.state.storage.sql.exec(
+			'INSERT OR REPLACE INTO stream_metrics (stream, metrics, reported_at) VALUES (?, ?, ?)',
+			stream,
+			JSON.stringify(metrics),
+			Date.now()
+		);
+		return new Response(null, { status: 204 });
+	}
+
+	private handleMetrics(): Response {
+		const sql = this.state.storage.sql;
+		sql.exec(
+			'DELETE FROM stream_metrics WHERE reported_at < ?',
+			Date.now() - MetricsRegistry.STALE_MS
+		);
+		const rows = sql
+			.exec<{ stream: string; metrics: string }>(
+				'SELECT stream, metrics FROM stream_metrics ORDER BY stream'
+			)
+			.toArray();
+		const snapshots = rows.map(({ stream, metrics }) =>
+			withLabels(JSON.parse(metrics), { stream })
+		);
+		return new Response(formatOpenMetrics(snapshots), {
+			headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE },
+		});
+	}
+}
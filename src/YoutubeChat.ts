@@ -1,104 +1,483 @@
-import { IHTTPMethods, Router } from 'itty-router';
+import { Router } from 'itty-router';
+import { Err, err, ok } from 'neverthrow';
 import { Env } from '.';
-import { LiveChatAction, ChatItemRenderer, Continuation } from '@util/types';
+import {
+	LiveChatAction,
+	LiveChatResponse,
+	ReplayChatItemAction,
+	Result,
+} from '@util/types';
 import { traverseJSON } from '@util/util';
-import { getContinuationToken, VideoData, COMMON_HEADERS } from '@util/youtube';
-import { MessageAdapter } from './adapters';
-import { JSONMessageAdapter } from './adapters/json';
-import { IRCMessageAdapter } from './adapters/irc';
-import { RawMessageAdapter } from './adapters/raw';
-import { TruffleMessageAdapter } from './adapters/truffle';
-import { SubathonMessageAdapter } from './adapters/subathon';
+import {
+	getLiveChatContinuation,
+	getReplayContinuation,
+	getChannelId,
+	getActionId,
+	getActionKey,
+	getActionType,
+	getActionTimestamp,
+	getActionAuthorId,
+	getDeletion,
+	getVideoData,
+	getWatchData,
+	ChatDeletion,
+	StreamStatus,
+	VideoData,
+	COMMON_HEADERS,
+} from '@util/youtube';
+import {
+	AdapterOptions,
+	DEFAULT_ADAPTER_OPTIONS,
+	MessageAdapter,
+	ServerEvent,
+} from './adapters';
+import {
+	ADAPTERS,
+	AdapterName,
+	createAdapter,
+	getAdapterKey,
+	isAdapterName,
+	parseAdapterOptions,
+	unknownAdapter,
+} from './adapters/registry';
+import {
+	ChatSubscriber,
+	Frame,
+	SSESubscriber,
+	WebSocketSubscriber,
+} from './transports';
+import { ChatHistory, HistoryEntry } from './history';
+import { SeenActions } from './dedupe';
+import {
+	formatOpenMetrics,
+	Metrics,
+	OPENMETRICS_CONTENT_TYPE,
+	withLabels,
+} from './metrics';
+import { MetricsReport } from './MetricsRegistry';
+import { ControlCommand, parseControlMessage } from './control';
+import {
+	ChatFilter,
+	ConnectionFilter,
+	getFilterKey,
+	parseFilterParams,
+	subscribeEvents,
+	unsubscribeEvents,
+} from './filters';
+import { getUSDRates, USDRates } from '@util/currency';
+import { fetchChannelLives } from '@util/channels';
+import {
+	batchFrames,
+	DEFAULT_DELIVERY,
+	DeliveryOptions,
+	getDeliveryKey,
+	parseDelivery,
+	parseDeliveryParams,
+} from './delivery';
+import { parseWebhookInput, WebhookTarget, Webhooks } from './webhooks';
+import {
+	CommandConfig,
+	CommandParser,
+	getCommandsKey,
+	parseCommandParams,
+} from './commands';
+import {
+	acquireLease,
+	getProtocolHeaders,
+	isAdminToken,
+	releaseLeases,
+	renewLeases,
+} from './auth';
+import {
+	ChatPoll,
+	parsePollInput,
+	PollEvent,
+	PollInput,
+	StoredPoll,
+	StoredYouTubePoll,
+	YouTubePolls,
+} from './polls';
 
 // --- Type Definitions ---
-type ClientMsg = { type: 'adapter'; adapter: string };
-type Msg =
-	| { type: 'ping' }
-	| {
-			type: 'message';
-			message: string;
-			id: string;
-			author: { id: string; name: string; badges: { tooltip: string; type: string; badge: string }[] };
-			unix: number;
-	  }
-	| { debug: true; message: string };
+// Per-connection state, changed with control commands
+type Session = {
+	adapterKey: string;
+	connectedAt: number;
+	lastPongAt?: number;
+	// The API key lease this connection holds, when keys are required
+	lease?: string;
+	// Frames held back until the client finishes its adapter's handshake
+	held?: Frame[];
+};
+
+// Queued frames remember their chat item and author so moderation can retract them,
+// and for realtime delivery when YouTube sent them and when they are due
+type QueuedFrame = Frame & { itemId?: string; authorId?: string; unix?: number; dueAt?: number };
 
 // --- MODIFIED ADAPTER INFO (With Outbox Queue) ---
 class AdapterInfo {
-	sockets: Set<WebSocket> = new Set();
+	// WebSockets and SSE streams alike
+	sockets: Set<ChatSubscriber> = new Set();
 	// Queue outbound messages so bursts don't get dropped by Resonite
-	outbox: string[] = [];
+	outbox: QueuedFrame[] = [];
 	draining = false;
+	flushPending = false;
+	// Frames trimmed from a full outbox, in total and since clients were last told
+	dropped = 0;
+	unreportedDrops = 0;
+	lastDropReportAt = 0;
+
+	constructor(
+		public readonly name: AdapterName,
+		public readonly options: AdapterOptions,
+		public readonly adapter: MessageAdapter,
+		// Applied before events are queued, so filtered chat costs no drain time
+		public readonly filter: ChatFilter,
+		public readonly delivery: DeliveryOptions,
+		// Chat commands the group wants as command events, see src/commands.ts
+		public readonly commands?: CommandParser
+	) {}
 }
 
+type GroupSpec = {
+	name: AdapterName;
+	options: AdapterOptions;
+	filter: ConnectionFilter;
+	delivery: DeliveryOptions;
+	commands?: CommandConfig;
+};
+
+type ReplayOptions = { offsetMs: number; speed: number };
+// A replay's own playback, named by `id` so /status can find it
+type ReplaySession = ReplayOptions & { id: string; startedAt: number };
+
+// Server events about the stream itself, which webhooks get along with chat
+const WEBHOOK_SERVER_EVENTS: ReadonlySet<string> = new Set([
+	'stream_started',
+	'stream_ended',
+	'stream_status',
+	'poll_update',
+	'poll_result',
+]);
+
+type AdapterStatus = {
+	groups: number;
+	sockets: number;
+	queued: number;
+	dropped: number;
+};
+
+// Stored with each hibernatable WebSocket, so its group can be rebuilt after the DO wakes
+type SocketAttachment = {
+	spec: GroupSpec;
+	connectedAt: number;
+	lastPongAt?: number;
+	lease?: string;
+	handshaking?: boolean;
+};
+
+// Everything polling needs to continue after the DO is evicted
+type StoredSession = {
+	videoId: string | null;
+	channelId: string | null;
+	follow: string | null;
+	apiKey: string;
+	clientVersion: string;
+	visitorData: string;
+	nextContinuationToken: string | null;
+	replay: ReplaySession | null;
+	replayQueue: { offsetMs: number; action: LiveChatAction }[];
+	replayBufferedUntil: number;
+	liveSince: number;
+	streamStatus: StreamStatus;
+	scheduledStartAt: number | null;
+	youtubePoll: StoredYouTubePoll | null;
+	savedAt: number;
+};
+
 // --- Main Worker Logic ---
 
+function getReplayOptions(url: URL): ReplayOptions {
+	const offset = Number(url.searchParams.get('offset'));
+	const speed = Number(url.searchParams.get('speed'));
+	return {
+		offsetMs: offset > 0 ? Math.round(offset * 1000) : 0,
+		speed: speed > 0 ? Math.min(speed, 16) : 1,
+	};
+}
+
+// A video's chat, or whichever video a followed channel is live in
+type ChatObjectKey =
+	| { videoId: string; replay: string | null }
+	| { follow: string };
+
+function getChatObjectName(key: ChatObjectKey) {
+	// Followed channels move from video to video, so they are named by channel
+	if ('follow' in key) return `channel:${key.follow}`;
+	// Every replay connection gets a playback clock of its own
+	return key.replay ? `${key.videoId}:replay:${key.replay}` : key.videoId;
+}
+
+function getChatObject(key: ChatObjectKey, env: Env): DurableObjectStub {
+	const name = getChatObjectName(key);
+	return env.CHAT_DB.get(env.CHAT_DB.idFromName(name));
+}
+
+/**
+ * Fetches `/status` or `/metrics` from a stream's Durable Object without
+ * starting a session. Replays are found with `?replay=<id>`, the ID their
+ * connection was given.
+ */
+export function inspectChatObject(
+	target: { videoId: string } | { follow: string },
+	path: 'status' | 'metrics',
+	req: Request,
+	env: Env
+): Promise<Response> {
+	const url = new URL(req.url);
+	const replay = url.searchParams.get('replay') || null;
+	const key = 'follow' in target ? target : { ...target, replay };
+	return getChatObject(key, env).fetch(`http://youtube.chat/${path}`);
+}
+
+/**
+ * Starts or joins a video's chat session and hands it the connection. With
+ * `follow` (a channel ID), the session moves on to the channel's next stream
+ * when this one ends.
+ */
 export async function createChatObject(
 	videoId: string,
 	videoData: VideoData,
 	req: Request,
-	env: Env
+	env: Env,
+	follow?: string
 ): Promise<Response> {
-	const id = env.CHAT_DB.idFromName(videoId);
-	const object = env.CHAT_DB.get(id);
+	const url = new URL(req.url);
+	// Taken first, so a key over its limits doesn't start a session
+	const lease = await acquireLease(req, env, {
+		stream: follow ? `channel:${follow}` : videoId,
+		channelId: follow ?? getChannelId(videoData.initialData) ?? null,
+	});
+	if (lease.isErr()) {
+		const [message, status] = lease.error;
+		return new Response(message, { status });
+	}
+	const object = await startChatObject(videoId, videoData, req, env, follow);
+	if (object.isErr()) {
+		if (lease.value) await releaseLeases(env, [lease.value]);
+		const [message, status] = object.error;
+		return new Response(message, { status });
+	}
+
+	// Forward the websocket request, injecting X-Video-Id header
+	const wsHeaders = new Headers(req.headers);
+	wsHeaders.set('X-Video-Id', videoId);
+	if (lease.value) wsHeaders.set('X-Api-Lease', lease.value);
+	const forwardedReq = new Request(req, { headers: wsHeaders });
+
+	// Route to /ws/<videoId> (or /sse/<videoId>) to ensure DO context is set
+	const transport = url.pathname.startsWith('/sse/') ? 'sse' : 'ws';
+	const res = await object.value.fetch(
+		`http://youtube.chat/${transport}/${videoId}${url.search}`,
+		forwardedReq
+	);
+	// The session turned the connection down (a bad ?adapter=, say), so nothing holds the lease
+	const connected =
+		res.status === 101 ||
+		!!res.headers.get('Content-Type')?.startsWith('text/event-stream');
+	if (lease.value && !connected) await releaseLeases(env, [lease.value]);
+	return res;
+}
+
+/** Starts or joins a video's chat session without connecting anyone to it yet. */
+export async function startChatObject(
+	videoId: string,
+	videoData: VideoData,
+	req: Request,
+	env: Env,
+	follow?: string
+): Promise<Result<DurableObjectStub, [string, number]>> {
+	const url = new URL(req.url);
+
+	const replay = videoData.isReplay && !follow ? getReplayOptions(url) : null;
+	const replayId = replay && crypto.randomUUID();
+	const object = getChatObject(
+		follow ? { follow } : { videoId, replay: replayId },
+		env
+	);
 
 	// Pass videoId via header so the DO knows which video to auto-heal
 	const initHeaders = new Headers({ 'Content-Type': 'application/json' });
 	initHeaders.set('X-Video-Id', videoId);
+	const channelId = getChannelId(videoData.initialData);
+	if (channelId) initHeaders.set('X-Channel-Id', channelId);
+	if (follow) initHeaders.set('X-Follow-Channel', follow);
+	if (replay && replayId) {
+		initHeaders.set('X-Replay-Id', replayId);
+		initHeaders.set('X-Replay-Offset', String(replay.offsetMs));
+		initHeaders.set('X-Replay-Speed', String(replay.speed));
+	}
 
 	const init = await object.fetch('http://youtube.chat/init', {
 		method: 'POST',
 		headers: initHeaders,
 		body: JSON.stringify(videoData),
 	});
-	if (!init.ok) return init;
+	if (!init.ok) return err([await init.text(), init.status]);
+	return ok(object);
+}
 
-	const url = new URL(req.url);
-	
-	// Forward the websocket request, injecting X-Video-Id header
-	const wsHeaders = new Headers(req.headers);
-	wsHeaders.set('X-Video-Id', videoId);
-	const forwardedReq = new Request(req, { headers: wsHeaders });
+/**
+ * Lists, adds (with `body`) or removes (with `targetId`) a stream's webhooks.
+ * A followed channel is named in a header, so adding a webhook can start
+ * following a channel that isn't live yet.
+ */
+export function forwardWebhooks(
+	target: { videoId: string } | { follow: string },
+	env: Env,
+	{ targetId, body }: { targetId?: string; body?: string } = {}
+): Promise<Response> {
+	const key = 'follow' in target ? target : { ...target, replay: null };
+	const headers = new Headers({ 'Content-Type': 'application/json' });
+	if ('follow' in target) headers.set('X-Follow-Channel', target.follow);
+	const path = targetId
+		? `webhooks/${encodeURIComponent(targetId)}`
+		: 'webhooks';
+	const method = body !== undefined ? 'POST' : targetId ? 'DELETE' : 'GET';
+	return getChatObject(key, env).fetch(`http://youtube.chat/${path}`, {
+		method,
+		headers,
+		body,
+	});
+}
 
-	// Route to /ws/<videoId> to ensure DO context is set
-	return object.fetch(`http://youtube.chat/ws/${videoId}${url.search}`, forwardedReq);
+/** Gets (no `method`), starts (`POST` with `body`) or ends (`DELETE`) a stream's chat poll. */
+export function forwardPoll(
+	target: { videoId: string } | { follow: string },
+	env: Env,
+	{
+		method = 'GET',
+		body,
+	}: { method?: 'GET' | 'POST' | 'DELETE'; body?: string } = {}
+): Promise<Response> {
+	const key = 'follow' in target ? target : { ...target, replay: null };
+	return getChatObject(key, env).fetch('http://youtube.chat/poll', {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body,
+	});
 }
 
 export class YoutubeChatV4 implements DurableObject {
+	// Keyed by adapter name, options and filter, see getGroup
 	private adapters: Map<string, AdapterInfo> = new Map();
+	// Adapters with hasState are built once and survive their sockets disconnecting
+	private statefulAdapters: Map<string, MessageAdapter> = new Map();
+	private sessions: Map<ChatSubscriber, Session> = new Map();
+	// Hibernation hands back the raw WebSocket, so remember which subscriber wraps it
+	private socketSubscribers: Map<WebSocket, WebSocketSubscriber> = new Map();
 	private nextContinuationToken: string | null = null;
 	
 	// State for Deadman Switch & Auto-Heal
 	private lastOkFetchTime = Date.now();
 	private consecutiveEmptyPolls = 0;
-	private tokenStallSince = Date.now();
 	private healBackoffMs = 5_000;
 	private nextHealAllowedAt = 0;
+	private lastError: { message: string; at: number } | null = null;
+	// When each of the last minute's events was broadcast
+	private eventTimes: number[] = [];
+	// Counters are saved with the session, so they only reset when the stream's storage does
+	private metrics = new Metrics();
+	private lastMetricsReportAt = 0;
 
 	// Session Data
 	private initialized = false;
+	private sessionSavedAt = 0;
+	private lastPingAt = Date.now();
 	private videoId: string | null = null;
+	private channelId: string | null = null;
+	// The channel whose next stream this session moves to when the current one ends
+	private follow: string | null = null;
+	private nextWatchAt = 0;
+	private watchBackoffMs = YoutubeChatV4.WATCH_MIN_MS;
+	// Streams that haven't opened chat yet wait here, rechecked like a followed channel
+	private streamStatus: StreamStatus = 'live';
+	private scheduledStartAt: number | null = null;
 	private apiKey!: string;
 	private clientVersion!: string;
 	private visitorData!: string;
 	private initialData!: VideoData['initialData'];
 
-	// Memory & Time Barriers
-	private recentMessageIds = new Set<string>();
-	private bootTime = Date.now();
+	// Chat replay: actions fetched ahead of the playhead, released as it reaches them
+	private replay: ReplaySession | null = null;
+	private replayQueue: { offsetMs: number; action: LiveChatAction }[] = [];
+	private replayBufferedUntil = 0;
+
+	// Live chat timestamped before this is backlog from before the session started
+	private liveSince = Date.now();
+	private seen: SeenActions;
+
+	// Webhook targets, each with its own adapter and event filter, and the events collected for them this poll
+	private webhooks: Webhooks;
+	private webhookTargets: WebhookTarget[] = [];
+	private webhookGroups: Map<string, AdapterInfo> = new Map();
+	private webhookEvents: Map<string, QueuedFrame[]> = new Map();
+	// The chat poll running, and polls run with YouTube's own poll feature
+	private poll: ChatPoll | null = null;
+	private lastPollUpdateAt = 0;
+	private youtubePolls = new YouTubePolls();
+
+	// Sequence numbers for resuming: the newest events in memory, the rest in SQLite
+	private eventSeq: number;
+	private recentEvents: Pick<HistoryEntry, 'seq' | 'action'>[] = [];
+	private history: ChatHistory;
+	private rates: USDRates;
+	// Time until the next poll, over which realtime delivery spreads a poll's events
+	private pollIntervalMs = YoutubeChatV4.BASE_CHAT_INTERVAL;
 
 	// Timing Constants
 	private static readonly BASE_CHAT_INTERVAL = 3_000;
 	private static readonly MIN_CHAT_INTERVAL = 1_000;
 	private static readonly MAX_CHAT_INTERVAL = 20_000;
+	private static readonly REPLAY_LOOKAHEAD_MS = 30_000;
+	// Allowed drift between YouTube's timestamps and ours
+	private static readonly CLOCK_SKEW_MS = 5_000;
 
 	// --- THROTTLING CONSTANTS (The Fix) ---
-	private static readonly OUTBOUND_INTERVAL_MS = 100; // Send 1 message every 100ms
 	private static readonly OUTBOX_MAX = 500;           // Prevents memory leaks if queue gets too big
+	private static readonly DROP_REPORT_MS = 5_000;
+	private static readonly RECENT_EVENTS_MAX = 500;
+	private static readonly SSE_RETRY_MS = 3_000;
+	private static readonly PING_INTERVAL_MS = 30_000;
+	private static readonly METRICS_REPORT_MS = 15_000;
+	// Older sessions are started over from the freshly scraped page instead of resumed
+	private static readonly SESSION_MAX_AGE_MS = 5 * 60_000;
+	// How often a followed channel is checked for a new stream, backing off while it stays offline
+	private static readonly WATCH_MIN_MS = 10_000;
+	private static readonly WATCH_MAX_MS = 5 * 60_000;
+	// Keeps slow webhook targets from holding up the alarm for long
+	private static readonly WEBHOOK_DELIVERIES_PER_ALARM = 5;
+	// Tallies are sent at most this often while votes come in
+	private static readonly POLL_UPDATE_MS = 2_000;
 
 	constructor(private state: DurableObjectState, private env: Env) {
-		// Keep sockets alive with pings
-		setInterval(() => this.sendPing(), 30_000);
+		this.history = new ChatHistory(state.storage.sql);
+		// Keep IDs increasing across restarts so stored history never collides
+		this.eventSeq = this.history.lastSeq();
+		this.seen = new SeenActions(state.storage.sql);
+		this.webhooks = new Webhooks(state.storage.sql);
+		this.webhookTargets = this.webhooks.targets();
+		this.rates = getUSDRates(env.USD_RATES);
+
+		// Pick up where an evicted instance stopped: the polling session first, then the sockets that need it
+		void state.blockConcurrencyWhile(async () => {
+			const saved = await state.storage.get<StoredSession>('session');
+			if (saved) this.restoreSession(saved);
+			this.metrics = new Metrics(await state.storage.get('metrics'));
+			const poll = await state.storage.get<StoredPoll>('poll');
+			if (poll) this.poll = ChatPoll.restore(poll);
+			for (const socket of state.getWebSockets()) this.restoreSocket(socket);
+		});
 	}
 
 	async fetch(req: Request): Promise<Response> {
@@ -106,6 +485,17 @@ export class YoutubeChatV4 implements DurableObject {
 		r.post('/init', (req: Request) => this.handleInit(req));
 		r.get('/ws/:videoId', (req: Request) => this.handleWebsocket(req));
 		r.get('/ws', (req: Request) => this.handleWebsocket(req));
+		r.get('/sse/:videoId', (req: Request) => this.handleSSE(req));
+		r.get('/status', () => this.handleStatus());
+		r.get('/metrics', () => this.handleMetrics());
+		r.get('/webhooks', () => this.handleListWebhooks());
+		r.post('/webhooks', (req: Request) => this.handleAddWebhook(req));
+		r.delete('/webhooks/:id', (req: Request & { params: { id: string } }) =>
+			this.handleRemoveWebhook(req.params.id)
+		);
+		r.get('/poll', () => this.handleGetPoll());
+		r.post('/poll', (req: Request) => this.handleStartPoll(req));
+		r.delete('/poll', () => this.handleEndPoll());
 		r.all('*', () => new Response('Not found', { status: 404 }));
 		return r.handle(req);
 	}
@@ -114,14 +504,36 @@ export class YoutubeChatV4 implements DurableObject {
 	async alarm(): Promise<void> {
 		await this.state.blockConcurrencyWhile(async () => {
 			const delay = await this.pollOnce();
-			await this.scheduleNext(delay);
+			this.pollIntervalMs = delay || YoutubeChatV4.BASE_CHAT_INTERVAL;
+			// Keep sockets alive with pings. An interval timer would keep the DO from hibernating.
+			if (Date.now() - this.lastPingAt >= YoutubeChatV4.PING_INTERVAL_MS) {
+				this.sendPing();
+				await this.renewApiKeyLeases();
+			}
+			await this.saveSession();
+			const sinceReport = Date.now() - this.lastMetricsReportAt;
+			if (sinceReport >= YoutubeChatV4.METRICS_REPORT_MS) {
+				await this.reportMetrics();
+			}
+			this.updatePoll();
+			this.queueWebhookBatches();
+			await this.scheduleNext(this.untilPollEnds(delay));
 		});
+		// Outside the block, so slow targets don't hold up clients
+		await this.deliverWebhooks();
 	}
 
 	// --- POLLING LOGIC ---
 	private async pollOnce(): Promise<number> {
-		if (!this.initialized || !this.nextContinuationToken) return 2_000;
-		if (!this.hasActiveSockets()) return 0;
+		if (!this.initialized) return 2_000;
+		if (!this.hasListeners()) return 0;
+		if (this.replay) return this.pollReplay(this.replay);
+		if (!this.nextContinuationToken) {
+			if (this.videoId && this.isWaiting()) {
+				return this.watchVideo(this.videoId);
+			}
+			return this.follow ? this.watchChannel(this.follow) : 2_000;
+		}
 
 		const now = Date.now();
 		const msSinceOk = now - this.lastOkFetchTime;
@@ -131,6 +543,7 @@ export class YoutubeChatV4 implements DurableObject {
 			this.broadcast({ debug: true, message: '♻️ [AUTO-HEAL] Refreshing token...' });
 			const recovered = await this.forceRefreshSession();
 			if (!recovered) {
+				this.lastError = { message: 'Auto-heal failed', at: now };
 				this.broadcast({ debug: true, message: '⚠️ [AUTO-HEAL] Failed.' });
 				this.healBackoffMs = Math.min(this.healBackoffMs * 2, 60_000);
 				this.nextHealAllowedAt = now + this.healBackoffMs;
@@ -140,12 +553,286 @@ export class YoutubeChatV4 implements DurableObject {
 			this.nextHealAllowedAt = now + 5_000;
 		}
 
+		try {
+			this.metrics.inc('polls');
+			const data = await this.fetchChat(
+				'get_live_chat',
+				this.nextContinuationToken
+			);
+
+			const { token: nextToken, timeoutMs } =
+				this.extractContinuationAndTimeout(data);
+			if (nextToken) this.nextContinuationToken = nextToken;
+
+			const actions =
+				data?.continuationContents?.liveChatContinuation?.actions ?? [];
+			this.consecutiveEmptyPolls = actions.length
+				? 0
+				: this.consecutiveEmptyPolls + 1;
+
+			for (const action of actions) {
+				// Repeats are caught by handleAction, so this only has to skip the backlog a new session starts with
+				const unix = getActionTimestamp(action);
+				const cutoff = this.liveSince - YoutubeChatV4.CLOCK_SKEW_MS;
+				if (unix !== undefined && unix < cutoff) continue;
+
+				this.handleAction(action);
+			}
+			if (actions.length > 0) this.pruneStores();
+
+			if (!nextToken) return this.checkStreamEnded();
+
+			if (typeof timeoutMs === 'number') return this.clamp(timeoutMs);
+			return YoutubeChatV4.BASE_CHAT_INTERVAL;
+		} catch (err) {
+			return this.handleFetchError(err);
+		}
+	}
+
+	/**
+	 * Live chat stops handing out continuations once the stream is over, but a
+	 * hiccup looks the same, so the watch page has the final say. While it still
+	 * shows the stream live, the old token is kept and auto-heal replaces it.
+	 */
+	private async checkStreamEnded(): Promise<number> {
+		if (!this.videoId) return this.endStream();
+		const watchData = await getWatchData(this.videoId);
+		const ended = watchData.isErr()
+			? watchData.error[1] === 404
+			: watchData.value.isReplay;
+		if (ended) return this.endStream();
+		this.lastOkFetchTime = 0;
+		return YoutubeChatV4.BASE_CHAT_INTERVAL;
+	}
+
+	/** Tells clients the stream is over and, when following its channel, starts watching for the next one. */
+	private endStream(): number {
+		this.nextContinuationToken = null;
+		if (this.videoId) {
+			this.broadcast({ type: 'stream_ended', videoId: this.videoId });
+		}
+		this.setStreamStatus('ended');
+		this.watchBackoffMs = YoutubeChatV4.WATCH_MIN_MS;
+		this.nextWatchAt = Date.now() + YoutubeChatV4.WATCH_MIN_MS;
+		return YoutubeChatV4.WATCH_MIN_MS;
+	}
+
+	/** Time until the next watch check is due, waking up at least as often as sockets need pinging. */
+	private untilNextWatch(): number {
+		return Math.min(
+			this.nextWatchAt - Date.now(),
+			YoutubeChatV4.PING_INTERVAL_MS
+		);
+	}
+
+	/**
+	 * Backs off the watch check after this one. A check that would land after
+	 * `notAfter` is moved to it instead, starting the backoff over from there.
+	 */
+	private scheduleWatch(notAfter?: number) {
+		const now = Date.now();
+		const next = now + this.watchBackoffMs;
+		if (notAfter !== undefined && notAfter > now && next > notAfter) {
+			this.nextWatchAt = notAfter;
+			this.watchBackoffMs = YoutubeChatV4.WATCH_MIN_MS;
+			return;
+		}
+		this.nextWatchAt = next;
+		this.watchBackoffMs = Math.min(
+			this.watchBackoffMs * 2,
+			YoutubeChatV4.WATCH_MAX_MS
+		);
+	}
+
+	/** Checks the followed channel for a new stream, less often the longer it stays offline. */
+	private async watchChannel(channel: string): Promise<number> {
+		if (this.untilNextWatch() > 0) return this.untilNextWatch();
+		this.scheduleWatch();
+		const wait = this.untilNextWatch();
+
+		const lives = await fetchChannelLives(channel);
+		if (lives.isErr()) return wait;
+		// Sessions started by webhooks have no client to have told us, and adapters like truffle need it
+		this.channelId = lives.value.channelId ?? this.channelId;
+		// The ended stream can stay listed as live for a while
+		const next = lives.value.streams.find(
+			({ videoId }) => videoId !== this.videoId
+		);
+		if (!next) return wait;
+
+		const videoData = await getVideoData([next.videoId]);
+		if (videoData.isErr()) return wait;
+		const token = getLiveChatContinuation(videoData.value.initialData);
+		if (!token) return wait;
+
+		this.videoId = next.videoId;
+		this.apiKey = videoData.value.apiKey;
+		this.clientVersion = videoData.value.clientVersion;
+		this.visitorData = videoData.value.visitorData;
+		this.nextContinuationToken = token;
+		this.liveSince = Date.now();
+		this.lastOkFetchTime = Date.now();
+		this.consecutiveEmptyPolls = 0;
+		this.broadcast({
+			type: 'stream_started',
+			videoId: next.videoId,
+			title: next.title,
+		});
+		this.setStreamStatus('live');
+		return YoutubeChatV4.MIN_CHAT_INTERVAL;
+	}
+
+	/**
+	 * Rechecks a stream whose chat isn't open yet, less often the longer it stays
+	 * closed, but always at its scheduled start. Polling starts once chat opens.
+	 */
+	private async watchVideo(videoId: string): Promise<number> {
+		if (this.untilNextWatch() > 0) return this.untilNextWatch();
+		this.scheduleWatch(this.scheduledStartAt ?? undefined);
+
+		const videoData = await getVideoData([videoId]);
+		const token = videoData.isOk()
+			? getLiveChatContinuation(videoData.value.initialData)
+			: undefined;
+		if (videoData.isOk() && token) {
+			this.apiKey = videoData.value.apiKey;
+			this.clientVersion = videoData.value.clientVersion;
+			this.visitorData = videoData.value.visitorData;
+			this.nextContinuationToken = token;
+			this.liveSince = Date.now();
+			this.lastOkFetchTime = Date.now();
+			this.consecutiveEmptyPolls = 0;
+			this.setStreamStatus('live');
+			return YoutubeChatV4.MIN_CHAT_INTERVAL;
+		}
+
+		const watchData = await getWatchData(videoId);
+		if (watchData.isErr()) {
+			// The stream ended without ever opening chat
+			if (watchData.error[1] === 404) return this.endStream();
+			return this.untilNextWatch();
+		}
+		const { waiting, scheduledStartAt, isReplay } = watchData.value;
+		if (waiting) this.setStreamStatus(waiting, scheduledStartAt);
+		else if (isReplay) return this.endStream();
+		// Otherwise chat just opened, and the popout will have it next time
+		return this.untilNextWatch();
+	}
+
+	private isWaiting(): boolean {
+		return (
+			this.streamStatus === 'upcoming' || this.streamStatus === 'chat_disabled'
+		);
+	}
+
+	/** Tells clients when the stream's chat opens, closes, or gets rescheduled. */
+	private setStreamStatus(status: StreamStatus, scheduledStartAt?: number) {
+		const changed =
+			status !== this.streamStatus ||
+			(scheduledStartAt ?? null) !== this.scheduledStartAt;
+		this.streamStatus = status;
+		this.scheduledStartAt = scheduledStartAt ?? null;
+		if (changed) this.broadcast(this.getStatusEvent());
+	}
+
+	private getStatusEvent(): ServerEvent {
+		return {
+			type: 'stream_status',
+			status: this.streamStatus,
+			scheduledStartAt: this.scheduledStartAt ?? undefined,
+		};
+	}
+	/**
+	 * Replays a finished stream's chat on a virtual playhead that starts at the
+	 * requested offset and advances at the requested speed.
+	 */
+	private async pollReplay(replay: ReplaySession): Promise<number> {
+		const playhead =
+			replay.offsetMs + (Date.now() - replay.startedAt) * replay.speed;
+
 		const token = this.nextContinuationToken;
+		if (
+			token &&
+			this.replayBufferedUntil < playhead + YoutubeChatV4.REPLAY_LOOKAHEAD_MS
+		) {
+			try {
+				this.metrics.inc('polls');
+				const data = await this.fetchChat<ReplayChatItemAction>(
+					'get_live_chat_replay',
+					token,
+					Math.max(playhead, this.replayBufferedUntil)
+				);
+				this.nextContinuationToken = this.extractReplayContinuation(data);
+
+				const batches =
+					data.continuationContents?.liveChatContinuation?.actions ?? [];
+				for (const { replayChatItemAction: batch } of batches) {
+					if (!batch) continue;
+					const offsetMs = Number(batch.videoOffsetTimeMsec);
+					// Seeking returns some chat from before the requested offset
+					if (offsetMs < replay.offsetMs) continue;
+					for (const action of batch.actions ?? [])
+						this.replayQueue.push({ offsetMs, action });
+					this.replayBufferedUntil = Math.max(
+						this.replayBufferedUntil,
+						offsetMs
+					);
+				}
+			} catch (err) {
+				return this.handleFetchError(err);
+			}
+		}
+
+		while (this.replayQueue[0] && this.replayQueue[0].offsetMs <= playhead) {
+			const next = this.replayQueue.shift();
+			if (next) this.handleAction(next.action);
+		}
+		this.pruneStores();
+
+		const upcoming = this.replayQueue[0];
+		if (upcoming)
+			return this.clamp((upcoming.offsetMs - playhead) / replay.speed);
+		if (!this.nextContinuationToken) {
+			this.broadcast({ debug: true, message: 'Replay finished.' });
+			this.replay = null;
+			return YoutubeChatV4.MAX_CHAT_INTERVAL;
+		}
+		return YoutubeChatV4.MIN_CHAT_INTERVAL;
+	}
+
+	private handleAction(action: LiveChatAction) {
+		// Adapters key off the first property, so strip tracking noise once for all of them
+		delete action.clickTrackingParams;
+
+		// A replay plays each action once, and SeenActions would drop a VOD replayed again within its window
+		const key = this.replay ? undefined : getActionKey(action);
+		if (key !== undefined && !this.seen.track(this.videoId ?? '', key)) {
+			this.metrics.inc('dedupe_hits');
+			return;
+		}
+
+		this.processAndBroadcast(action);
+		this.poll?.vote(action);
+		const youtubePoll = this.youtubePolls.observe(action);
+		if (youtubePoll) this.broadcast(youtubePoll);
+	}
+
+	private pruneStores() {
+		if (!this.videoId) return;
+		this.history.prune(this.videoId);
+		this.seen.prune(this.videoId);
+	}
+
+	private async fetchChat<Action = LiveChatAction>(
+		endpoint: 'get_live_chat' | 'get_live_chat_replay',
+		token: string,
+		playerOffsetMs = 0
+	): Promise<LiveChatResponse<Action>> {
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), 10_000);
 
 		try {
-			const url = `https://www.youtube.com/youtubei/v1/live_chat/get_live_chat?key=${this.apiKey}`;
+			const url = `https://www.youtube.com/youtubei/v1/live_chat/${endpoint}?key=${this.apiKey}`;
 			const res = await fetch(url, {
 				method: 'POST',
 				headers: COMMON_HEADERS,
@@ -164,87 +851,94 @@ export class YoutubeChatV4 implements DurableObject {
 						},
 					},
 					continuation: token,
-					currentPlayerState: { playerOffsetMs: '0' },
+					currentPlayerState: {
+						playerOffsetMs: String(Math.round(playerOffsetMs)),
+					},
 				}),
 				signal: controller.signal,
 			});
 
 			if (!res.ok) throw new Error(`Status ${res.status}`);
 
-			const data = await res.json<any>();
+			const data = await res.json<LiveChatResponse<Action>>();
 			this.lastOkFetchTime = Date.now();
-
-			const { token: nextToken, timeoutMs } = this.extractContinuationAndTimeout(data);
-			if (nextToken) this.nextContinuationToken = nextToken;
-
-			const actions = data?.continuationContents?.liveChatContinuation?.actions ?? [];
-			
-			for (const action of actions) {
-				let msgTimestamp = 0;
-				try {
-					const renderer =
-						action.liveChatTextMessageRenderer ||
-						action.liveChatPaidMessageRenderer ||
-						action.liveChatMembershipItemRenderer;
-					if (renderer && renderer.timestampUsec) {
-						msgTimestamp = parseInt(renderer.timestampUsec) / 1000;
-					}
-				} catch (e) {}
-
-				if (msgTimestamp > 0 && msgTimestamp < this.bootTime - 5000) continue;
-
-				const id = this.getId(action);
-				if (id) {
-					if (!this.trackMessageId(id)) continue;
-				}
-				
-				this.processAndBroadcast(action, id);
-			}
-
-			if (typeof timeoutMs === 'number') return this.clamp(timeoutMs);
-			return YoutubeChatV4.BASE_CHAT_INTERVAL;
-
-		} catch (err: any) {
-			const msg = (err && err.message) ? String(err.message) : String(err);
-			if (msg.includes('Too many subrequests')) {
-				this.broadcast({ debug: true, message: '⚠️ [FETCH] Subrequest limit hit.' });
-				return 5_000;
-			}
-			this.broadcast({ debug: true, message: `⚠️ [FETCH] ${msg}` });
-			return 5_000;
+			return data;
 		} finally {
 			clearTimeout(timeoutId);
 		}
 	}
 
-	// --- NEW BROADCAST SYSTEM (Queued) ---
+	private handleFetchError(err: unknown): number {
+		const msg = err instanceof Error ? err.message : String(err);
+		this.lastError = { message: msg, at: Date.now() };
+		const status = /^Status (\d+)$/.exec(msg)?.[1];
+		if (status) {
+			this.metrics.inc('poll_errors', { class: 'http', status });
+		} else if (err instanceof Error && err.name === 'AbortError') {
+			this.metrics.inc('poll_errors', { class: 'timeout' });
+		} else if (msg.includes('Too many subrequests')) {
+			this.metrics.inc('poll_errors', { class: 'subrequest_limit' });
+		} else {
+			this.metrics.inc('poll_errors', { class: 'other' });
+		}
+		if (msg.includes('Too many subrequests')) {
+			this.broadcast({ debug: true, message: '⚠️ [FETCH] Subrequest limit hit.' });
+			return 5_000;
+		}
+		this.broadcast({ debug: true, message: `⚠️ [FETCH] ${msg}` });
+		return 5_000;
+	}
 
-	private broadcast(msg: Msg) {
-		const text = JSON.stringify(msg);
+	// --- NEW BROADCAST SYSTEM (Queued) ---
 
-		// Never delay pings (send immediately)
-		if ((msg as any)?.type === 'ping') {
-			this.adapters.forEach((adapter) => {
-				adapter.sockets.forEach((socket) => this.safeSend(socket, text));
+	private broadcast(msg: ServerEvent) {
+		if ('type' in msg && WEBHOOK_SERVER_EVENTS.has(msg.type)) {
+			this.collectWebhookEvents((info) => {
+				const frame = this.serverFrame(info.adapter, msg);
+				if (frame?.event && info.filter.acceptsEvent(frame.event)) return frame;
 			});
-			return;
 		}
+		this.adapters.forEach((adapter) => {
+			const frame = this.serverFrame(adapter.adapter, msg);
+			if (!frame) return;
+
+			// Never delay pings (send immediately)
+			if ('type' in msg && msg.type === 'ping') {
+				adapter.sockets.forEach((socket) => this.safeSend(socket, frame));
+				return;
+			}
 
-		// Queue everything else
-		this.adapters.forEach((adapter) => this.enqueue(adapter, text));
+			// Queue everything else
+			this.enqueue(adapter, frame);
+		});
 	}
 
-	private enqueue(adapter: AdapterInfo, payload: string) {
+	private enqueue(adapter: AdapterInfo, payload: QueuedFrame) {
 		adapter.outbox.push(payload);
 
 		// Cap memory usage
 		if (adapter.outbox.length > YoutubeChatV4.OUTBOX_MAX) {
-			adapter.outbox.splice(0, adapter.outbox.length - YoutubeChatV4.OUTBOX_MAX);
+			const dropped = adapter.outbox.splice(
+				0,
+				adapter.outbox.length - YoutubeChatV4.OUTBOX_MAX
+			).length;
+			adapter.dropped += dropped;
+			adapter.unreportedDrops += dropped;
+			this.metrics.inc('outbox_drops', { adapter: adapter.name }, dropped);
 		}
 
-		if (!adapter.draining) {
-			adapter.draining = true;
-			this.drain(adapter);
+		if (adapter.delivery.mode === 'paced') {
+			if (!adapter.draining) {
+				adapter.draining = true;
+				this.drain(adapter);
+			}
+			return;
+		}
+
+		// A poll's actions are handled synchronously, so this runs once they are all queued
+		if (!adapter.flushPending) {
+			adapter.flushPending = true;
+			setTimeout(() => this.flush(adapter), 0);
 		}
 	}
 
@@ -261,38 +955,241 @@ export class YoutubeChatV4 implements DurableObject {
 			return;
 		}
 
-		adapter.sockets.forEach((socket) => this.safeSend(socket, next));
+		this.reportDrops(adapter);
+		this.sendQueued(adapter, next);
 
-		// Send next message after 100ms
-		setTimeout(() => this.drain(adapter), YoutubeChatV4.OUTBOUND_INTERVAL_MS);
+		// Send next message after the connection's interval
+		setTimeout(() => this.drain(adapter), adapter.delivery.intervalMs);
 	}
 
+	/** Sends a poll's worth of frames as one batch, or schedules them for realtime delivery. */
+	private flush(adapter: AdapterInfo) {
+		adapter.flushPending = false;
+		if (adapter.sockets.size === 0) {
+			adapter.outbox.length = 0;
+			return;
+		}
+
+		if (adapter.delivery.mode === 'batch') {
+			const frames = adapter.outbox.splice(0);
+			if (frames.length === 0) return;
+			this.reportDrops(adapter);
+			this.sendQueued(adapter, batchFrames(frames), frames.length);
+			return;
+		}
+
+		// Realtime: keep the gaps YouTube's timestamps show, squeezed into the time until the next poll
+		const fresh = adapter.outbox.filter((frame) => frame.dueAt === undefined);
+		const stamps = fresh.flatMap((frame) =>
+			frame.unix === undefined ? [] : [frame.unix]
+		);
+		const first = stamps.length ? Math.min(...stamps) : 0;
+		const span = stamps.length ? Math.max(...stamps) - first : 0;
+		const scale = span > this.pollIntervalMs ? this.pollIntervalMs / span : 1;
+		const now = Date.now();
+		const lastScheduled =
+			adapter.outbox[adapter.outbox.length - fresh.length - 1];
+		let due = Math.max(now, lastScheduled?.dueAt ?? now);
+		for (const frame of fresh) {
+			if (frame.unix !== undefined) {
+				due = Math.max(due, now + (frame.unix - first) * scale);
+			}
+			frame.dueAt = due;
+		}
+
+		if (!adapter.draining) {
+			adapter.draining = true;
+			this.drainTimed(adapter);
+		}
+	}
+
+	private drainTimed(adapter: AdapterInfo) {
+		if (adapter.sockets.size === 0) {
+			adapter.outbox.length = 0;
+			adapter.draining = false;
+			return;
+		}
+
+		const now = Date.now();
+		this.reportDrops(adapter);
+		while (
+			adapter.outbox[0]?.dueAt !== undefined &&
+			adapter.outbox[0].dueAt <= now
+		) {
+			const next = adapter.outbox.shift();
+			if (!next) break;
+			this.sendQueued(adapter, next);
+		}
+
+		// Frames not yet scheduled are picked up by the pending flush
+		const upcoming = adapter.outbox[0]?.dueAt;
+		if (upcoming === undefined) {
+			adapter.draining = false;
+			return;
+		}
+		setTimeout(() => this.drainTimed(adapter), upcoming - now);
+	}
+
+	/** Sends frames from the outbox, which hold `events` events, to everyone in the group. */
+	private sendQueued(adapter: AdapterInfo, frame: Frame, events = 1) {
+		adapter.sockets.forEach((socket) => this.safeSend(socket, frame));
+		const sent = events * adapter.sockets.size;
+		this.metrics.inc('events_sent', { adapter: adapter.name }, sent);
+	}
+
+	/** Tells clients how many frames a full outbox has cost them, at most every few seconds. */
+	private reportDrops(adapter: AdapterInfo) {
+		const now = Date.now();
+		if (adapter.unreportedDrops === 0) return;
+		if (now - adapter.lastDropReportAt < YoutubeChatV4.DROP_REPORT_MS) return;
+		const frame = this.serverFrame(adapter.adapter, {
+			type: 'dropped',
+			count: adapter.unreportedDrops,
+			total: adapter.dropped,
+		});
+		adapter.unreportedDrops = 0;
+		adapter.lastDropReportAt = now;
+		if (!frame) return;
+		adapter.sockets.forEach((socket) => this.safeSend(socket, frame));
+	}
 	// --- HELPERS ---
 
-	private processAndBroadcast(action: any, id: string | undefined) {
-		if (action.addChatItemAction?.item?.liveChatTextMessageRenderer) {
-			const renderer = action.addChatItemAction.item.liveChatTextMessageRenderer;
-			const message = renderer.message?.runs?.map((r: any) => r.text).join('') || "";
-			const authorName = renderer.authorName?.simpleText || "Unknown";
-			const authorId = renderer.authorExternalChannelId || "";
-			const badges = renderer.authorBadges?.map((b: any) => ({
-				tooltip: b.liveChatAuthorBadgeRenderer?.tooltip,
-				type: b.liveChatAuthorBadgeRenderer?.icon?.iconType || 'icon',
-				badge: b.liveChatAuthorBadgeRenderer?.customThumbnail?.thumbnails?.[0]?.url
-			})) || [];
-			
-			this.broadcast({
-				type: 'message',
-				message,
-				id: id || '',
-				author: { id: authorId, name: authorName, badges },
-				unix: Date.now()
-			});
+	private processAndBroadcast(action: LiveChatAction) {
+		const id = ++this.eventSeq;
+		this.eventTimes.push(Date.now());
+		this.trimEventTimes();
+		this.metrics.inc('events', { type: getActionType(action) });
+		this.recentEvents.push({ seq: id, action });
+		if (this.recentEvents.length > YoutubeChatV4.RECENT_EVENTS_MAX)
+			this.recentEvents.shift();
+		if (this.videoId) {
+			// Replayed chat is stored as of when it was replayed, or the age limit would prune a VOD's history right away
+			const unix = this.replay
+				? Date.now()
+				: getActionTimestamp(action) ?? Date.now();
+			this.history.append(this.videoId, { seq: id, unix, action });
+		}
+
+		const deletion = getDeletion(action);
+		if (deletion) this.retract(deletion);
+
+		const itemId = getActionId(action);
+		const authorId = getActionAuthorId(action);
+		const unix = getActionTimestamp(action);
+		this.adapters.forEach((info) => {
+			for (const frame of this.liveFrames(info, action, id)) {
+				this.enqueue(info, { ...frame, itemId, authorId, unix });
+			}
+		});
+		this.collectWebhookEvents((info) => this.groupFrame(info, action, id), {
+			itemId,
+			authorId,
+		});
+	}
+
+	/** Drops deleted messages, or everything by a removed author, that hasn't been sent yet. */
+	private retract(deletion: ChatDeletion) {
+		const isTarget =
+			deletion.type === 'delete'
+				? (frame: QueuedFrame) => frame.itemId === deletion.targetId
+				: (frame: QueuedFrame) => frame.authorId === deletion.authorId;
+		this.adapters.forEach((info) => {
+			info.outbox = info.outbox.filter((frame) => !isTarget(frame));
+		});
+		for (const [targetId, events] of this.webhookEvents) {
+			this.webhookEvents.set(
+				targetId,
+				events.filter((frame) => !isTarget(frame))
+			);
 		}
 	}
 
+	private actionFrame(
+		adapter: MessageAdapter,
+		action: LiveChatAction,
+		id: number
+	): Frame | undefined {
+		let data: string | undefined;
+		try {
+			data = adapter.transform(action);
+		} catch (e) {
+			console.error('Adapter transform failed', e);
+			return;
+		}
+		if (data)
+			return {
+				data: adapter.sequence(data, id),
+				event: adapter.eventName(data),
+				id,
+			};
+	}
+
+	/** A chat frame for a group, unless the group's filter rejects it. */
+	private groupFrame(
+		info: AdapterInfo,
+		action: LiveChatAction,
+		id: number
+	): Frame | undefined {
+		if (!info.filter.matches(action)) return;
+		const frame = this.actionFrame(info.adapter, action, id);
+		if (frame?.event && info.filter.acceptsFrame(action, frame.event)) {
+			return frame;
+		}
+	}
+
+	/**
+	 * A group's frames for a newly polled action: the action, and the command it
+	 * makes for groups parsing commands. Only live chat is parsed, since
+	 * cooldowns would be used up by history and resumes.
+	 */
+	private liveFrames(
+		info: AdapterInfo,
+		action: LiveChatAction,
+		id: number
+	): Frame[] {
+		const frame = this.groupFrame(info, action, id);
+		const command =
+			info.commands &&
+			info.filter.acceptsEvent('command') &&
+			info.filter.matches(action)
+				? info.commands.parse(action)
+				: undefined;
+		const commandFrame = command && this.serverFrame(info.adapter, command);
+		if (!commandFrame) return frame ? [frame] : [];
+
+		const sequenced = {
+			...commandFrame,
+			data: info.adapter.sequence(commandFrame.data, id),
+			id,
+		};
+		if (info.commands?.config.mode === 'instead' || !frame) return [sequenced];
+		return [frame, sequenced];
+	}
+
+	private serverFrame(
+		adapter: MessageAdapter,
+		msg: ServerEvent
+	): Frame | undefined {
+		const data = adapter.serialize(msg);
+		if (data) return { data, event: 'debug' in msg ? 'debug' : msg.type };
+	}
+
+	private getAdapter(
+		name: AdapterName,
+		options: AdapterOptions
+	): Result<MessageAdapter, [string, number]> {
+		const key = getAdapterKey(name, options);
+		const cached = this.statefulAdapters.get(key);
+		if (cached) return ok(cached);
+
+		const adapter = createAdapter(name, this.env, this.channelId, options);
+		if (adapter.isOk() && ADAPTERS[name].hasState)
+			this.statefulAdapters.set(key, adapter.value);
+		return adapter;
+	}
+
 	private async scheduleNext(delayMs: number): Promise<void> {
-		if (!this.hasActiveSockets()) {
+		if (!this.hasListeners()) {
 			await this.state.storage.deleteAlarm();
 			return;
 		}
@@ -303,6 +1200,7 @@ export class YoutubeChatV4 implements DurableObject {
 	private async forceRefreshSession(): Promise<boolean> {
 		const vid = this.videoId;
 		if (!vid) return false;
+		this.metrics.inc('heal_attempts');
 
 		try {
 			const url = `https://www.youtube.com/live_chat?is_popout=1&v=${vid}`;
@@ -318,8 +1216,9 @@ export class YoutubeChatV4 implements DurableObject {
 			if (!token) return false;
 
 			this.nextContinuationToken = token;
+			// The new token starts with chat already sent, which SeenActions drops
 			this.lastOkFetchTime = Date.now();
-			this.bootTime = Date.now();
+			this.metrics.inc('heal_successes');
 			return true;
 		} catch {
 			return false;
@@ -327,21 +1226,55 @@ export class YoutubeChatV4 implements DurableObject {
 	}
 
 	private async handleInit(req: Request): Promise<Response> {
-		const headerVid = req.headers.get('X-Video-Id');
-		if (headerVid) this.videoId = headerVid;
+		const replayId = req.headers.get('X-Replay-Id');
+		const replayOffset = req.headers.get('X-Replay-Offset');
+		const replaySpeed = req.headers.get('X-Replay-Speed');
 
 		await this.state.blockConcurrencyWhile(async () => {
-			if (this.initialized) return;
+			const isFresh =
+				Date.now() - this.sessionSavedAt < YoutubeChatV4.SESSION_MAX_AGE_MS;
+			// A followed channel may have moved on from the video this client found
+			if (this.initialized && isFresh) return;
+			const headerVid = req.headers.get('X-Video-Id');
+			if (headerVid) this.videoId = headerVid;
+			const headerChannel = req.headers.get('X-Channel-Id');
+			if (headerChannel) this.channelId = headerChannel;
+			this.follow = req.headers.get('X-Follow-Channel');
 			try {
 				const videoData = await req.json<VideoData>();
 				this.apiKey = videoData.apiKey;
 				this.clientVersion = videoData.clientVersion;
 				this.visitorData = videoData.visitorData;
 				this.initialData = videoData.initialData;
-				this.nextContinuationToken = getContinuationToken(traverseJSON(this.initialData, (v) => v.title === 'Live chat' ? v.continuation : undefined));
+				if (videoData.isReplay) {
+					this.nextContinuationToken =
+						getReplayContinuation(this.initialData) ?? null;
+					this.replay = {
+						id: replayId ?? '',
+						offsetMs: Number(replayOffset) || 0,
+						speed: Number(replaySpeed) || 1,
+						startedAt: Date.now(),
+					};
+					this.replayQueue = [];
+					this.replayBufferedUntil = 0;
+				} else if (videoData.waiting) {
+					// Nothing to poll until chat opens, see watchVideo
+					this.nextContinuationToken = null;
+					this.watchBackoffMs = YoutubeChatV4.WATCH_MIN_MS;
+					this.nextWatchAt = Date.now() + YoutubeChatV4.WATCH_MIN_MS;
+					this.setStreamStatus(videoData.waiting, videoData.scheduledStartAt);
+				} else {
+					this.nextContinuationToken =
+						getLiveChatContinuation(this.initialData) ?? null;
+					this.liveSince = Date.now();
+					this.setStreamStatus('live');
+				}
 				this.initialized = true;
+				this.lastOkFetchTime = Date.now();
+				await this.saveSession();
 				this.broadcast({ debug: true, message: 'Initialized stream session.' });
 			} catch(e) {
+				this.lastError = { message: `Init failed: ${e}`, at: Date.now() };
 				this.broadcast({ debug: true, message: 'Init failed' });
 			}
 		});
@@ -349,68 +1282,884 @@ export class YoutubeChatV4 implements DurableObject {
 	}
 
 	private async handleWebsocket(req: Request): Promise<Response> {
+		const url = this.readVideoId(req);
+		const resolved = this.resolveAdapter(url.searchParams);
+		if (resolved.isErr()) return this.errorResponse(resolved);
+		const [adapterKey, adapter] = resolved.value;
+
+		const { 0: client, 1: server } = new WebSocketPair();
+		const socket = server as WebSocket;
+		// Hibernatable: the runtime keeps the socket open while the DO is evicted
+		this.state.acceptWebSocket(socket);
+		const subscriber = new WebSocketSubscriber(socket);
+		this.socketSubscribers.set(socket, subscriber);
+		this.subscribe(
+			adapterKey,
+			adapter,
+			subscriber,
+			url,
+			null,
+			req.headers.get('X-Api-Lease')
+		);
+		this.saveAttachment(subscriber);
+
+		const headers = new Headers(getProtocolHeaders(req));
+		if (this.replay) headers.set('X-Replay-Id', this.replay.id);
+		return new Response(null, {
+			status: 101,
+			webSocket: client as any,
+			headers,
+		});
+	}
+
+	async webSocketMessage(
+		socket: WebSocket,
+		message: string | ArrayBuffer
+	): Promise<void> {
+		const subscriber = this.socketSubscribers.get(socket);
+		if (subscriber && typeof message === 'string') {
+			this.handleClientMessage(subscriber, message);
+		}
+	}
+
+	async webSocketClose(
+		socket: WebSocket,
+		code: number,
+		reason: string
+	): Promise<void> {
+		this.dropSocket(socket);
+		try {
+			// 1005 and 1006 are reported but may not be sent
+			socket.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+		} catch {
+			// Already closed
+		}
+	}
+
+	async webSocketError(socket: WebSocket): Promise<void> {
+		this.dropSocket(socket);
+	}
+
+	private dropSocket(socket: WebSocket) {
+		const subscriber = this.socketSubscribers.get(socket);
+		this.socketSubscribers.delete(socket);
+		if (subscriber) this.unsubscribe(subscriber);
+	}
+
+	private async handleSSE(req: Request): Promise<Response> {
+		const url = this.readVideoId(req);
+		const resolved = this.resolveAdapter(url.searchParams);
+		if (resolved.isErr()) return this.errorResponse(resolved);
+		const [adapterKey, adapter] = resolved.value;
+
+		const { readable, writable } = new TransformStream();
+		const subscriber = new SSESubscriber(writable.getWriter(), () =>
+			this.unsubscribe(subscriber)
+		);
+		subscriber.retry(YoutubeChatV4.SSE_RETRY_MS);
+
+		this.subscribe(
+			adapterKey,
+			adapter,
+			subscriber,
+			url,
+			req.headers.get('Last-Event-ID'),
+			req.headers.get('X-Api-Lease')
+		);
+
+		const headers = new Headers({
+			'Content-Type': 'text/event-stream; charset=utf-8',
+			'Cache-Control': 'no-cache',
+			'Access-Control-Allow-Origin': '*',
+		});
+		if (this.replay) headers.set('X-Replay-Id', this.replay.id);
+		return new Response(readable, { headers });
+	}
+
+	private async handleStatus(): Promise<Response> {
+		const adapters: Record<string, AdapterStatus> = {};
+		for (const info of this.adapters.values()) {
+			const totals = (adapters[info.name] ??= {
+				groups: 0,
+				sockets: 0,
+				queued: 0,
+				dropped: 0,
+			});
+			totals.groups++;
+			totals.sockets += info.sockets.size;
+			totals.queued += info.outbox.length;
+			totals.dropped += info.dropped;
+		}
+
+		const status = {
+			initialized: this.initialized,
+			videoId: this.videoId,
+			channelId: this.channelId,
+			follow: this.follow,
+			replay: this.replay,
+			streamStatus: this.streamStatus,
+			scheduledStartAt: this.scheduledStartAt,
+			lastOkFetchAt: this.lastOkFetchTime,
+			consecutiveEmptyPolls: this.consecutiveEmptyPolls,
+			healBackoffMs: this.healBackoffMs,
+			nextHealAllowedAt: this.nextHealAllowedAt,
+			nextAlarmAt: await this.state.storage.getAlarm(),
+			pollIntervalMs: this.pollIntervalMs,
+			seq: this.eventSeq,
+			messagesPerMinute: this.trimEventTimes(),
+			lastError: this.lastError,
+			adapters,
+			dedupe: this.seen.stats(this.videoId),
+			webhooks: this.webhookTargets.length,
+			poll: this.poll?.id ?? null,
+		};
+		return new Response(JSON.stringify(status, null, '\t'), {
+			headers: {
+				'Content-Type': 'application/json; charset=utf-8',
+				'Access-Control-Allow-Origin': '*',
+			},
+		});
+	}
+
+	private handleMetrics(): Response {
+		const metrics = withLabels(this.collectMetrics(), {
+			stream: this.streamName(),
+		});
+		return new Response(formatOpenMetrics([metrics]), {
+			headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE },
+		});
+	}
+
+	/** The counters, with gauges set to their current values. */
+	private collectMetrics() {
+		// Groups sharing an adapter add up to its gauge
+		this.metrics.reset('sockets');
+		for (const info of this.adapters.values()) {
+			this.metrics.inc('sockets', { adapter: info.name }, info.sockets.size);
+		}
+		this.metrics.set('poll_interval_seconds', this.pollIntervalMs / 1000);
+		return this.metrics.snapshot();
+	}
+
+	private streamName() {
+		return getChatObjectName(
+			this.follow
+				? { follow: this.follow }
+				: { videoId: this.videoId ?? '', replay: this.replay?.id ?? null }
+		);
+	}
+
+	/** Sends this stream's metrics to the registry behind the aggregated `/metrics`. */
+	private async reportMetrics() {
+		this.lastMetricsReportAt = Date.now();
+		const report: MetricsReport = {
+			stream: this.streamName(),
+			metrics: this.collectMetrics(),
+		};
+		try {
+			const registry = this.env.METRICS.get(
+				this.env.METRICS.idFromName('global')
+			);
+			await registry.fetch('http://youtube.chat/report', {
+				method: 'POST',
+				body: JSON.stringify(report),
+			});
+		} catch {
+			// Metrics are best effort, and the next report catches up
+		}
+	}
+
+	private handleListWebhooks(): Response {
+		return this.jsonResponse({ targets: this.webhooks.list() });
+	}
+
+	private async handleAddWebhook(req: Request): Promise<Response> {
+		let body: unknown;
+		try {
+			body = await req.json();
+		} catch {
+			return new Response('Expected a JSON object', { status: 400 });
+		}
+		const input = parseWebhookInput(body, {
+			allowPrivate: this.env.ALLOW_PRIVATE_WEBHOOKS === 'true',
+		});
+		if (input.isErr()) return new Response(input.error, { status: 400 });
+
+		await this.state.blockConcurrencyWhile(async () => {
+			const follow = req.headers.get('X-Follow-Channel');
+			if (!this.initialized && follow) {
+				// Nothing to poll yet: the first watch check finds the channel's stream, live or not
+				this.follow = follow;
+				this.streamStatus = 'ended';
+				this.nextContinuationToken = null;
+				this.nextWatchAt = 0;
+				this.initialized = true;
+			}
+			await this.saveSession();
+		});
+		const target = this.webhooks.add(input.value);
+		this.webhookTargets = this.webhooks.targets();
+		await this.scheduleNext(1_000);
+		return this.jsonResponse(target, 201);
+	}
+
+	private handleRemoveWebhook(id: string): Response {
+		if (!this.webhooks.remove(id)) {
+			return new Response('Webhook not found', { status: 404 });
+		}
+		this.webhookTargets = this.webhooks.targets();
+		this.webhookGroups.delete(id);
+		this.webhookEvents.delete(id);
+		return new Response(null, { status: 204 });
+	}
+
+	/** Holds a frame for every webhook target whose filter lets it through, until the poll is over. */
+	private collectWebhookEvents(
+		frameFor: (info: AdapterInfo) => Frame | undefined,
+		source: Pick<QueuedFrame, 'itemId' | 'authorId'> = {}
+	) {
+		for (const target of this.webhookTargets) {
+			const info = this.getWebhookGroup(target);
+			const frame = info && frameFor(info);
+			if (!frame) continue;
+			const events = this.webhookEvents.get(target.id) ?? [];
+			// Kept with the chat item and author, so a deletion later this poll can retract it
+			events.push({ ...frame, ...source });
+			this.webhookEvents.set(target.id, events);
+		}
+	}
+
+	/** Like getGroup, but webhooks never share their adapter's outbox with sockets. */
+	private getWebhookGroup(target: WebhookTarget): AdapterInfo | undefined {
+		const cached = this.webhookGroups.get(target.id);
+		if (cached) return cached;
+		const adapter = this.getAdapter(target.adapter, DEFAULT_ADAPTER_OPTIONS);
+		// Adapters that need the channel ID have to wait for the session to know it
+		if (adapter.isErr()) return;
+		const info = new AdapterInfo(
+			target.adapter,
+			DEFAULT_ADAPTER_OPTIONS,
+			adapter.value,
+			new ChatFilter({ events: target.events }, this.rates),
+			DEFAULT_DELIVERY
+		);
+		this.webhookGroups.set(target.id, info);
+		return info;
+	}
+
+	/** Stores each target's events from this poll as one batch. */
+	private queueWebhookBatches() {
+		for (const [targetId, events] of this.webhookEvents) {
+			// Events are already serialized by their adapter
+			const stream = JSON.stringify({
+				videoId: this.videoId,
+				channelId: this.channelId,
+			});
+			const data = events.map((frame) => frame.data).join(',');
+			const body = `${stream.slice(0, -1)},"events":[${data}]}`;
+			this.webhooks.enqueue(targetId, body);
+		}
+		this.webhookEvents.clear();
+	}
+
+	private async deliverWebhooks() {
+		if (!this.webhooks.hasPending()) return;
+		const results = await this.webhooks.deliver(
+			YoutubeChatV4.WEBHOOK_DELIVERIES_PER_ALARM
+		);
+		const { delivered, failed, deadLettered } = results;
+		this.metrics.inc('webhook_deliveries', { result: 'delivered' }, delivered);
+		this.metrics.inc('webhook_deliveries', { result: 'failed' }, failed);
+		this.metrics.inc('webhook_deliveries', { result: 'dead' }, deadLettered);
+	}
+
+	private handleGetPoll(): Response {
+		if (!this.poll) return new Response('No poll is running', { status: 404 });
+		return this.jsonResponse(this.poll.event('poll_update'));
+	}
+
+	private async handleStartPoll(req: Request): Promise<Response> {
+		let body: unknown;
+		try {
+			body = await req.json();
+		} catch {
+			return new Response('Expected a JSON object', { status: 400 });
+		}
+		const input = parsePollInput(body);
+		if (input.isErr()) return new Response(input.error, { status: 400 });
+		const started = this.startPoll(input.value);
+		if (started.isErr()) return new Response(started.error, { status: 409 });
+		return this.jsonResponse(started.value, 201);
+	}
+
+	private handleEndPoll(): Response {
+		const result = this.endPoll();
+		if (!result) return new Response('No poll is running', { status: 404 });
+		return this.jsonResponse(result);
+	}
+
+	/** Opens a chat poll on the stream, telling clients with an empty `poll_update`. */
+	private startPoll(input: PollInput): Result<PollEvent, string> {
+		// Votes are counted from polled chat, which replays and waiting rooms don't have
+		if (!this.initialized || this.replay || this.streamStatus !== 'live') {
+			return err('Polls need a live stream');
+		}
+		if (this.poll) return err('A poll is already running');
+		this.poll = new ChatPoll(crypto.randomUUID(), input, Date.now());
+		this.lastPollUpdateAt = Date.now();
+		const started = this.poll.event('poll_update');
+		this.broadcast(started);
+		void this.state.storage.put('poll', this.poll.toJSON());
+		return ok(started);
+	}
+
+	/** Sends the chat poll's tallies when votes came in, and its result once it's over. */
+	private updatePoll() {
+		const poll = this.poll;
+		if (!poll) return;
+		const now = Date.now();
+		if (now >= poll.endsAt) {
+			this.endPoll();
+			return;
+		}
+		// Saved every poll, even when the update waits, so an eviction loses no votes
+		if (poll.unsaved) {
+			poll.unsaved = false;
+			void this.state.storage.put('poll', poll.toJSON());
+		}
+		if (!poll.changed) return;
+		if (now - this.lastPollUpdateAt < YoutubeChatV4.POLL_UPDATE_MS) return;
+		poll.changed = false;
+		this.lastPollUpdateAt = now;
+		this.broadcast(poll.event('poll_update'));
+	}
+
+	private endPoll(): PollEvent | undefined {
+		if (!this.poll) return;
+		const result = this.poll.event('poll_result');
+		this.poll = null;
+		this.broadcast(result);
+		void this.state.storage.delete('poll');
+		return result;
+	}
+
+	// A running poll ends on time, however slowly chat is polled
+	private untilPollEnds(delay: number): number {
+		if (!this.poll) return delay;
+		const untilEnd = Math.max(1, this.poll.endsAt - Date.now());
+		return Math.min(delay || YoutubeChatV4.BASE_CHAT_INTERVAL, untilEnd);
+	}
+
+	private jsonResponse(body: unknown, status = 200): Response {
+		return new Response(JSON.stringify(body, null, '\t'), {
+			status,
+			headers: {
+				'Content-Type': 'application/json; charset=utf-8',
+				'Access-Control-Allow-Origin': '*',
+			},
+		});
+	}
+
+	/** Forgets events older than a minute, returning how many are left. */
+	private trimEventTimes(): number {
+		const minuteAgo = Date.now() - 60_000;
+		while ((this.eventTimes[0] ?? minuteAgo) < minuteAgo) {
+			this.eventTimes.shift();
+		}
+		return this.eventTimes.length;
+	}
+
+	private readVideoId(req: Request): URL {
 		const url = new URL(req.url);
+		// Followed channels change video on their own, see watchChannel
+		if (this.follow) return url;
 		const parts = url.pathname.split('/');
 		const urlVid = parts[parts.length - 1];
-		if (urlVid && urlVid !== 'ws') this.videoId = urlVid;
+		if (urlVid && urlVid !== 'ws' && urlVid !== 'sse') this.videoId = urlVid;
 		const headerVid = req.headers.get('X-Video-Id');
 		if (headerVid) this.videoId = headerVid;
+		return url;
+	}
 
-		const { 0: client, 1: server } = new WebSocketPair();
-		const socket = server as WebSocket;
-		socket.accept();
-
-		const adapterName = url.searchParams.get('adapter') || 'json';
+	private resolveAdapter(
+		params: URLSearchParams
+	): Result<[string, AdapterInfo], [string, number]> {
+		const adapterName = params.get('adapter') || 'json';
+		if (!isAdapterName(adapterName)) return unknownAdapter(adapterName);
+		const options = parseAdapterOptions(params);
+		if (options.isErr()) return options;
+		const filter = parseFilterParams(params);
+		if (filter.isErr()) return filter;
+		const delivery = parseDeliveryParams(params);
+		if (delivery.isErr()) return delivery;
+		const commands = parseCommandParams(params);
+		if (commands.isErr()) return commands;
+
+		return this.getGroup({
+			name: adapterName,
+			options: options.value,
+			filter: filter.value,
+			delivery: delivery.value,
+			commands: commands.value,
+		});
+	}
 
-		let adapter = this.adapters.get(adapterName);
+	/** Finds or creates the group of subscribers sharing an adapter, its options and a filter. */
+	private getGroup(
+		spec: GroupSpec
+	): Result<[string, AdapterInfo], [string, number]> {
+		const key = [
+			getAdapterKey(spec.name, spec.options),
+			`filter=${getFilterKey(spec.filter)}`,
+			`delivery=${getDeliveryKey(spec.delivery)}`,
+			`commands=${getCommandsKey(spec.commands)}`,
+		].join('&');
+		let adapter = this.adapters.get(key);
 		if (!adapter) {
-			adapter = new AdapterInfo();
-			this.adapters.set(adapterName, adapter);
+			const created = this.getAdapter(spec.name, spec.options);
+			if (created.isErr()) return created;
+			const filter = new ChatFilter(spec.filter, this.rates);
+			adapter = new AdapterInfo(
+				spec.name,
+				spec.options,
+				created.value,
+				filter,
+				spec.delivery,
+				spec.commands && new CommandParser(spec.commands)
+			);
+			this.adapters.set(key, adapter);
 		}
-		adapter.sockets.add(socket);
+		return ok([key, adapter]);
+	}
 
+	private groupSpec(info: AdapterInfo): GroupSpec {
+		return {
+			name: info.name,
+			options: info.options,
+			filter: info.filter.rules,
+			delivery: info.delivery,
+			commands: info.commands?.config,
+		};
+	}
+	/** Moves a subscriber to another group, for control commands that change its adapter or filter. */
+	private moveSession(
+		subscriber: ChatSubscriber,
+		session: Session,
+		spec: GroupSpec
+	): Result<AdapterInfo, string> {
+		const resolved = this.getGroup(spec);
+		if (resolved.isErr()) return err(resolved.error[0]);
+		const [adapterKey, next] = resolved.value;
+		if (adapterKey !== session.adapterKey) {
+			next.sockets.add(subscriber);
+			this.leaveGroup(session.adapterKey, subscriber);
+			session.adapterKey = adapterKey;
+		}
+		return ok(next);
+	}
+
+	private subscribe(
+		adapterKey: string,
+		adapter: AdapterInfo,
+		subscriber: ChatSubscriber,
+		url: URL,
+		lastEventId: string | null,
+		lease: string | null
+	) {
+		adapter.sockets.add(subscriber);
+		const handshaking =
+			subscriber instanceof WebSocketSubscriber && adapter.adapter.hasHandshake;
+		this.sessions.set(subscriber, {
+			adapterKey,
+			connectedAt: Date.now(),
+			lease: lease ?? undefined,
+			held: handshaking ? [] : undefined,
+		});
 		void this.scheduleNext(1_000);
 
-		socket.send(JSON.stringify({ debug: true, message: `Connected. Listening for chat... (adapter=${adapterName})` }));
+		const connected = this.serverFrame(adapter.adapter, {
+			debug: true,
+			message: `Connected. Listening for chat... (adapter=${adapter.name})`,
+		});
+		if (connected) this.safeSend(subscriber, connected);
+		// Status changes are broadcast, so clients arriving in between need the current one
+		if (this.streamStatus !== 'live') {
+			const status = this.serverFrame(adapter.adapter, this.getStatusEvent());
+			if (status) this.safeSend(subscriber, status);
+		}
+
+		// Backlog goes straight to the new subscriber, ahead of anything queued for live delivery.
+		// EventSource cannot set headers on its first request, so ?lastEventId works like Last-Event-ID.
+		const resumeFrom = this.parseSeq(
+			lastEventId ??
+				url.searchParams.get('resume') ??
+				url.searchParams.get('lastEventId')
+		);
+		if (resumeFrom !== undefined) {
+			this.resume(adapter, subscriber, resumeFrom);
+			return;
+		}
+		const backlog = this.getBacklog({
+			count: Number(url.searchParams.get('history')),
+			since: Number(url.searchParams.get('since')),
+		});
+		for (const { seq, action } of backlog) {
+			const frame = this.groupFrame(adapter, action, seq);
+			if (frame) this.safeSend(subscriber, frame);
+		}
+	}
 
-		const cleanup = () => {
-			const currentAdapter = this.adapters.get(adapterName);
-			if (currentAdapter) {
-				currentAdapter.sockets.delete(socket);
-				if (currentAdapter.sockets.size === 0) {
-					currentAdapter.outbox.length = 0; // Clear queue
-					currentAdapter.draining = false;
-					this.adapters.delete(adapterName);
-				}
+	private saveAttachment(subscriber: WebSocketSubscriber) {
+		const session = this.sessions.get(subscriber);
+		const info = session && this.adapters.get(session.adapterKey);
+		if (!session || !info) return;
+		const attachment: SocketAttachment = {
+			spec: this.groupSpec(info),
+			connectedAt: session.connectedAt,
+			lastPongAt: session.lastPongAt,
+			lease: session.lease,
+			handshaking: session.held !== undefined,
+		};
+		try {
+			subscriber.socket.serializeAttachment(attachment);
+		} catch {
+			// Closed sockets can't take an attachment, and don't need one
+		}
+	}
+
+	/** Rejoins a socket accepted before the DO was evicted to the group saved with it. */
+	private restoreSocket(socket: WebSocket) {
+		const attachment =
+			socket.deserializeAttachment() as SocketAttachment | null;
+		const resolved = attachment && this.getGroup(attachment.spec);
+		if (!attachment || !resolved || resolved.isErr()) {
+			try {
+				socket.close(1011, 'Session could not be restored');
+			} catch {
+				// Already closed
 			}
-			if (!this.hasActiveSockets()) void this.state.storage.deleteAlarm();
+			return;
+		}
+		const [adapterKey, info] = resolved.value;
+		const subscriber = new WebSocketSubscriber(socket);
+		this.socketSubscribers.set(socket, subscriber);
+		info.sockets.add(subscriber);
+		this.sessions.set(subscriber, {
+			adapterKey,
+			connectedAt: attachment.connectedAt,
+			lastPongAt: attachment.lastPongAt,
+			lease: attachment.lease,
+			// Whatever was held is lost with the instance, but the handshake still has to finish
+			held: attachment.handshaking ? [] : undefined,
+		});
+	}
+
+	private async saveSession() {
+		if (!this.initialized) return;
+		this.sessionSavedAt = Date.now();
+		const session: StoredSession = {
+			videoId: this.videoId,
+			channelId: this.channelId,
+			follow: this.follow,
+			apiKey: this.apiKey,
+			clientVersion: this.clientVersion,
+			visitorData: this.visitorData,
+			nextContinuationToken: this.nextContinuationToken,
+			replay: this.replay,
+			replayQueue: this.replayQueue,
+			replayBufferedUntil: this.replayBufferedUntil,
+			liveSince: this.liveSince,
+			streamStatus: this.streamStatus,
+			scheduledStartAt: this.scheduledStartAt,
+			youtubePoll: this.youtubePolls.toJSON(),
+			savedAt: this.sessionSavedAt,
 		};
+		await this.state.storage.put('session', session);
+		await this.state.storage.put('metrics', this.metrics.snapshot());
+	}
 
-		socket.addEventListener('close', cleanup);
-		socket.addEventListener('error', cleanup);
+	private restoreSession(saved: StoredSession) {
+		this.videoId = saved.videoId;
+		this.channelId = saved.channelId;
+		this.follow = saved.follow;
+		this.apiKey = saved.apiKey;
+		this.clientVersion = saved.clientVersion;
+		this.visitorData = saved.visitorData;
+		this.nextContinuationToken = saved.nextContinuationToken;
+		this.replay = saved.replay;
+		this.replayQueue = saved.replayQueue;
+		this.replayBufferedUntil = saved.replayBufferedUntil;
+		this.liveSince = saved.liveSince;
+		// Sessions saved before the waiting room was added were all live
+		this.streamStatus = saved.streamStatus ?? 'live';
+		this.scheduledStartAt = saved.scheduledStartAt ?? null;
+		this.youtubePolls = YouTubePolls.restore(saved.youtubePoll ?? null);
+		this.sessionSavedAt = saved.savedAt;
+		this.initialized = true;
+	}
 
-		return new Response(null, { status: 101, webSocket: client as any });
+	private unsubscribe(subscriber: ChatSubscriber) {
+		const session = this.sessions.get(subscriber);
+		if (session) this.leaveGroup(session.adapterKey, subscriber);
+		this.sessions.delete(subscriber);
+		if (session?.lease) void releaseLeases(this.env, [session.lease]);
+		if (!this.hasListeners()) void this.state.storage.deleteAlarm();
 	}
 
-	// --- UTILS ---
-	private getId(data: LiveChatAction) {
-		try {
-			const cleanData = { ...data };
-			delete (cleanData as any).clickTrackingParams;
-			const actionType = Object.keys(cleanData)[0] as keyof LiveChatAction;
-			const action = (cleanData as any)[actionType]?.item;
-			return action?.id;
-		} catch (e) { return undefined; }
+	/** Keeps connected clients' API key leases alive, and disconnects clients whose key was revoked. */
+	private async renewApiKeyLeases() {
+		const leased = [...this.sessions].filter(([, session]) => session.lease);
+		if (!leased.length) return;
+		const revoked = new Set(
+			await renewLeases(
+				this.env,
+				leased.map(([, session]) => session.lease as string)
+			)
+		);
+		for (const [subscriber, session] of leased) {
+			if (!revoked.has(session.lease as string)) continue;
+			// Gone already, so there's nothing to release
+			session.lease = undefined;
+			if (subscriber instanceof WebSocketSubscriber) {
+				try {
+					subscriber.socket.close(4001, 'API key revoked');
+				} catch {
+					// Already closed
+				}
+				this.dropSocket(subscriber.socket);
+			} else {
+				subscriber.close();
+			}
+		}
+	}
+
+	private leaveGroup(adapterKey: string, subscriber: ChatSubscriber) {
+		const currentAdapter = this.adapters.get(adapterKey);
+		if (currentAdapter) {
+			currentAdapter.sockets.delete(subscriber);
+			if (currentAdapter.sockets.size === 0) {
+				currentAdapter.outbox.length = 0; // Clear queue
+				currentAdapter.draining = false;
+				currentAdapter.flushPending = false;
+				this.adapters.delete(adapterKey);
+			}
+		}
 	}
 
-	private trackMessageId(id: string): boolean {
-		if (this.recentMessageIds.has(id)) return false;
-		this.recentMessageIds.add(id);
-		if (this.recentMessageIds.size > 50) {
-			const first = this.recentMessageIds.values().next().value;
-			this.recentMessageIds.delete(first);
+	/**
+	 * Stored history asked for with `?history=N` / `?since=<unix>` or the
+	 * history command. `since` may be in seconds or milliseconds.
+	 */
+	private getBacklog({
+		count,
+		since,
+	}: {
+		count?: number;
+		since?: number;
+	}): HistoryEntry[] {
+		if (!this.videoId) return [];
+
+		if (count && count > 0) return this.history.latest(this.videoId, count);
+		if (since && since > 0) {
+			const unix = since < 1e12 ? since * 1000 : since;
+			return this.history.since(this.videoId, unix);
 		}
-		return true;
+
+		return [];
+	}
+
+	/** Runs a control command (see src/control.ts), or hands the message to the adapter's own protocol. */
+	private handleClientMessage(subscriber: WebSocketSubscriber, data: string) {
+		const session = this.sessions.get(subscriber);
+		const info = session && this.adapters.get(session.adapterKey);
+		if (!session || !info) return;
+
+		const parsed = parseControlMessage(data);
+		if (!parsed) {
+			const replies = info.adapter.receive?.(subscriber.socket, data) ?? [];
+			for (const reply of replies) this.sendNow(subscriber, { data: reply });
+			if (session.held && (info.adapter.completesHandshake?.(data) ?? true)) {
+				const held = session.held;
+				session.held = undefined;
+				for (const frame of held) this.sendNow(subscriber, frame);
+				this.saveAttachment(subscriber);
+			}
+			return;
+		}
+		if (parsed.isErr()) {
+			this.reply(subscriber, { type: 'error', ...parsed.error });
+			return;
+		}
+
+		const { type: command, id } = parsed.value;
+		const result = this.runCommand(subscriber, session, info, parsed.value);
+		if (result.isErr()) {
+			const message = result.error;
+			this.reply(subscriber, { type: 'error', message, command, id });
+		} else {
+			// Adapter, filter and pong changes must survive hibernation
+			this.saveAttachment(subscriber);
+			this.reply(subscriber, { type: 'ack', command, id, data: result.value });
+		}
+	}
+
+	private runCommand(
+		subscriber: ChatSubscriber,
+		session: Session,
+		info: AdapterInfo,
+		cmd: ControlCommand
+	): Result<unknown, string> {
+		switch (cmd.type) {
+			case 'adapter': {
+				if (!isAdapterName(cmd.adapter)) {
+					return err(unknownAdapter(cmd.adapter).error[0]);
+				}
+				// Options not given carry over from the current adapter
+				const options = parseAdapterOptions(
+					new URLSearchParams({
+						format: cmd.format ?? info.options.format,
+						emoji: cmd.emoji ?? info.options.emoji,
+					})
+				);
+				if (options.isErr()) return err(options.error[0]);
+				const spec = {
+					...this.groupSpec(info),
+					name: cmd.adapter,
+					options: options.value,
+				};
+				const next = this.moveSession(subscriber, session, spec);
+				if (next.isErr()) return next;
+				return ok({ adapter: next.value.name, ...next.value.options });
+			}
+			case 'subscribe':
+			case 'unsubscribe':
+			case 'filter': {
+				let filter = cmd.type === 'filter' ? cmd.filter : info.filter.rules;
+				if (cmd.type === 'subscribe') {
+					filter = subscribeEvents(filter, cmd.events);
+				} else if (cmd.type === 'unsubscribe') {
+					filter = unsubscribeEvents(filter, cmd.events);
+				}
+				const spec = { ...this.groupSpec(info), filter };
+				const next = this.moveSession(subscriber, session, spec);
+				if (next.isErr()) return next;
+				return ok({ filter: next.value.filter.rules });
+			}
+			case 'delivery': {
+				// Whatever the command leaves out stays as it is
+				const delivery = parseDelivery(
+					cmd.mode ?? info.delivery.mode,
+					cmd.interval ?? info.delivery.intervalMs
+				);
+				if (delivery.isErr()) return delivery;
+				const spec = { ...this.groupSpec(info), delivery: delivery.value };
+				const next = this.moveSession(subscriber, session, spec);
+				if (next.isErr()) return next;
+				return ok({ delivery: next.value.delivery });
+			}
+			case 'commands': {
+				const spec = {
+					...this.groupSpec(info),
+					commands: cmd.commands ?? undefined,
+				};
+				const next = this.moveSession(subscriber, session, spec);
+				if (next.isErr()) return next;
+				return ok({ commands: next.value.commands?.config ?? null });
+			}
+			case 'poll_start':
+			case 'poll_end': {
+				// Anyone can vote, but only admins run polls
+				if (!isAdminToken(this.env, cmd.token)) return err('Unauthorized');
+				if (cmd.type === 'poll_start') return this.startPoll(cmd.poll);
+				const result = this.endPoll();
+				return result ? ok(result) : err('No poll is running');
+			}
+			case 'history': {
+				const backlog = this.getBacklog(cmd);
+				let sent = 0;
+				for (const { seq, action } of backlog) {
+					const frame = this.groupFrame(info, action, seq);
+					if (!frame) continue;
+					this.safeSend(subscriber, frame);
+					sent++;
+				}
+				return ok({ count: sent });
+			}
+			case 'resume':
+				this.resume(info, subscriber, cmd.seq);
+				return ok({ seq: this.eventSeq });
+			case 'ping':
+				return ok({ time: Date.now() });
+			case 'pong':
+				session.lastPongAt = Date.now();
+				return ok(undefined);
+			case 'status':
+				return ok({
+					adapter: info.name,
+					...info.options,
+					filter: info.filter.rules,
+					delivery: info.delivery,
+					commands: info.commands?.config ?? null,
+					videoId: this.videoId,
+					seq: this.eventSeq,
+					replay: this.replay?.id ?? null,
+					dedupe: this.seen.stats(this.videoId),
+					subscribers: info.sockets.size,
+					queued: info.outbox.length,
+					dropped: info.dropped,
+					connectedAt: session.connectedAt,
+					lastPongAt: session.lastPongAt,
+				});
+		}
+	}
+
+	/** Sends a server event straight to one subscriber, skipping the outbox. */
+	private reply(subscriber: ChatSubscriber, msg: ServerEvent) {
+		const session = this.sessions.get(subscriber);
+		const info = session && this.adapters.get(session.adapterKey);
+		const frame = info && this.serverFrame(info.adapter, msg);
+		if (frame) this.safeSend(subscriber, frame);
+	}
+
+	/**
+	 * Sends the events after `seq`, preceded by a gap event for those that can't
+	 * be: ones that have fallen out of both the memory and SQLite buffers, and
+	 * any beyond the newest `ChatHistory.REPLAY_MAX`.
+	 */
+	private resume(info: AdapterInfo, subscriber: ChatSubscriber, seq: number) {
+		const oldestInMemory = this.recentEvents[0]?.seq ?? this.eventSeq + 1;
+		const missed =
+			oldestInMemory <= seq + 1
+				? this.recentEvents.filter((e) => e.seq > seq)
+				: this.history.after(this.videoId ?? '', seq);
+
+		const firstAvailable = missed[0]?.seq ?? this.eventSeq + 1;
+		if (firstAvailable > seq + 1) {
+			const gap = this.serverFrame(info.adapter, {
+				type: 'gap',
+				from: seq + 1,
+				to: firstAvailable - 1,
+			});
+			if (gap) this.safeSend(subscriber, gap);
+		}
+
+		for (const { seq: id, action } of missed) {
+			const frame = this.groupFrame(info, action, id);
+			if (frame) this.safeSend(subscriber, frame);
+		}
+	}
+
+	// --- UTILS ---
+	private parseSeq(value: string | null): number | undefined {
+		if (value === null || value === '') return;
+		const seq = Number(value);
+		if (Number.isSafeInteger(seq) && seq >= 0) return seq;
+	}
+
+	private errorResponse({
+		error: [message, status],
+	}: Err<unknown, [string, number]>) {
+		return new Response(message, { status });
 	}
 
 	private extractContinuationAndTimeout(data: any) {
@@ -424,13 +2173,66 @@ export class YoutubeChatV4 implements DurableObject {
 		return { token: fallback, timeoutMs: null };
 	}
 
-	private traverseJSONForContinuation(obj: any): string | null {
-		return traverseJSON(obj, (v, k) => k === 'continuation' && typeof v === 'string' ? v : undefined) || null;
+	private extractReplayContinuation(
+		data: LiveChatResponse<unknown>
+	): string | null {
+		// Only follow the replay chain; the seek continuations would loop back to the start
+		const conts = data.continuationContents?.liveChatContinuation?.continuations ?? [];
+		for (const c of conts) {
+			const replay = c.liveChatReplayContinuationData;
+			if (replay?.continuation) return replay.continuation;
+		}
+		return null;
 	}
 
-	private clamp(ms: number) { return Math.max(YoutubeChatV4.MIN_CHAT_INTERVAL, Math.min(YoutubeChatV4.MAX_CHAT_INTERVAL, ms)); }
-	private hasActiveSockets() { for (const a of this.adapters.values()) { if (a.sockets.size > 0) return true; } return false; }
-	
-	private safeSend(socket: WebSocket, data: string) { try { socket.send(data); } catch { try { socket.close(); } catch {} } }
-	private sendPing() { if (!this.hasActiveSockets()) return; this.broadcast({ type: 'ping' }); }
+	private clamp(ms: number) {
+		return Math.max(
+			YoutubeChatV4.MIN_CHAT_INTERVAL,
+			Math.min(YoutubeChatV4.MAX_CHAT_INTERVAL, ms)
+		);
+	}
+
+	/** Whether polling is needed: for connected clients, or for webhooks until their stream is over and delivered. */
+	private hasListeners() {
+		if (this.hasActiveSockets()) return true;
+		if (this.webhooks.hasPending()) return true;
+		if (!this.webhookTargets.length) return false;
+		return this.follow !== null || this.streamStatus !== 'ended';
+	}
+
+	private hasActiveSockets() {
+		for (const adapter of this.adapters.values()) {
+			if (adapter.sockets.size > 0) return true;
+		}
+		return false;
+	}
+
+	/** Sends a frame, or holds it while the client is still in its handshake. */
+	private safeSend(socket: ChatSubscriber, frame: Frame) {
+		const held = this.sessions.get(socket)?.held;
+		if (!held) {
+			this.sendNow(socket, frame);
+			return;
+		}
+		held.push(frame);
+		if (held.length > YoutubeChatV4.OUTBOX_MAX) held.shift();
+	}
+
+	private sendNow(socket: ChatSubscriber, frame: Frame) {
+		try {
+			socket.send(frame);
+		} catch {
+			try {
+				socket.close();
+			} catch {
+				// Already closed, and its close handler cleans up
+			}
+		}
+	}
+
+	private sendPing() {
+		this.lastPingAt = Date.now();
+		if (!this.hasActiveSockets()) return;
+		this.broadcast({ type: 'ping' });
+	}
 }
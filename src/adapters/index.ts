@@ -1,9 +1,79 @@
 import { LiveChatAction } from '@util/types';
+import { EmojiMode, StreamStatus } from '@util/youtube';
+import { RequestId } from '../control';
+import { CommandEvent } from '../commands';
+import { PollEvent } from '../polls';
+
+/** Per-connection output settings, chosen with query params. */
+export type AdapterOptions = {
+	// `runs` adds the message's text and emoji runs next to its plain text
+	format: 'text' | 'runs';
+	emoji: EmojiMode;
+};
+
+export const DEFAULT_ADAPTER_OPTIONS: AdapterOptions = {
+	format: 'text',
+	emoji: 'strip',
+};
+
+/** Events generated by the server itself rather than by YouTube chat. */
+export type ServerEvent =
+	| { type: 'ping' }
+	| { debug: true; message: string }
+	// Events `from` through `to` were requested but are no longer buffered
+	| { type: 'gap'; from: number; to: number }
+	// `count` events were dropped from a full outbox since the last report
+	| { type: 'dropped'; count: number; total: number }
+	// A followed channel's stream ended, or a new one started and chat moved to it
+	| { type: 'stream_ended'; videoId: string }
+	| { type: 'stream_started'; videoId: string; title: string }
+	// Whether chat can be polled yet: `upcoming` streams also say when they're scheduled
+	| { type: 'stream_status'; status: StreamStatus; scheduledStartAt?: number }
+	// A chat message matching one of the connection's commands, see src/commands.ts
+	| CommandEvent
+	// A chat poll's or YouTube poll's tallies, see src/polls.ts
+	| PollEvent
+	// Replies to a client's control command, see src/control.ts
+	| { type: 'ack'; command: string; id?: RequestId; data?: unknown }
+	| { type: 'error'; message: string; command?: string; id?: RequestId };
 
 export abstract class MessageAdapter {
 	public static readonly hasState: boolean;
+	// WebSocket clients get only replies until they finish a handshake, see completesHandshake
+	public readonly hasHandshake: boolean = false;
 
 	public abstract readonly sockets: Set<WebSocket>;
 
 	abstract transform(action: LiveChatAction): string | undefined;
+
+	serialize(event: ServerEvent): string | undefined {
+		return JSON.stringify(event);
+	}
+
+	/** Stamps a transformed payload with its sequence number. */
+	sequence(payload: string, seq: number): string {
+		if (!payload.endsWith('}')) return payload;
+		// Appended last so consumers that key off the first property still work
+		const separator = payload === '{}' ? '' : ',';
+		return `${payload.slice(0, -1)}${separator}"seq":${seq}}`;
+	}
+
+	/** Names an output payload for transports that label frames, such as SSE. */
+	eventName(payload: string): string {
+		try {
+			const { type } = JSON.parse(payload);
+			if (typeof type === 'string') return type;
+		} catch {
+			// Not JSON, fall through
+		}
+		return 'message';
+	}
+
+	/**
+	 * Handle a message sent by a client. Returns the replies for that socket only.
+	 */
+	receive?(socket: WebSocket, message: string): string[];
+
+	/** Whether a client message finishes the handshake, once receive has answered it. */
+	completesHandshake?(message: string): boolean;
 }
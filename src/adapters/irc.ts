@@ -1,10 +1,531 @@
-import { LiveChatAction } from '@util/types';
-import { MessageAdapter } from '.';
+import {
+	ChatItemRenderer,
+	LiveChatAction,
+	YTBadge,
+	YTString,
+} from '@util/types';
+import {
+	ChatDeletion,
+	getDeletion,
+	parseYTString,
+	StreamStatus,
+} from '@util/youtube';
+import { Env } from '..';
+import {
+	AdapterOptions,
+	DEFAULT_ADAPTER_OPTIONS,
+	MessageAdapter,
+	ServerEvent,
+} from '.';
+import { getUsernameColor } from './truffle/hash';
 
+const HOST = 'tmi.twitch.tv';
+const CAPABILITIES = [
+	'twitch.tv/tags',
+	'twitch.tv/commands',
+	'twitch.tv/membership',
+];
+const ANONYMOUS_NICK = 'justinfan';
+// How many recent messages/authors to remember for CLEARMSG and CLEARCHAT
+const RECENT_MAX = 500;
+
+const STREAM_STATUS_TEXT: Record<StreamStatus, string> = {
+	upcoming: 'The stream has not started yet',
+	live: 'Chat is open',
+	ended: 'The stream has ended',
+	chat_disabled: 'Chat is disabled for this stream',
+};
+
+type Tags = Record<string, string | number>;
+
+type Author = {
+	authorExternalChannelId: string;
+	authorName: YTString;
+	authorBadges?: YTBadge[];
+};
+
+function escapeTag(value: string | number): string {
+	return String(value)
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\:')
+		.replace(/ /g, '\\s')
+		.replace(/\r/g, '\\r')
+		.replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats a single IRCv3 line, terminated with CRLF like Twitch does.
+ */
+function formatLine(
+	tags: Tags | undefined,
+	source: string,
+	command: string,
+	trailing?: string
+): string {
+	let line = '';
+	if (tags) {
+		const encoded = Object.entries(tags).map(
+			([key, value]) => `${key}=${escapeTag(value)}`
+		);
+		line += `@${encoded.join(';')} `;
+	}
+	line += `:${source} ${command}`;
+	if (trailing !== undefined) line += ` :${trailing.replace(/[\r\n]+/g, ' ')}`;
+	return line + '\r\n';
+}
+
+function toLogin(name: string, id: string): string {
+	return name.toLowerCase().replace(/[^a-z0-9_]/g, '') || id.toLowerCase();
+}
+
+function userSource(login: string): string {
+	return `${login}!${login}@${login}.${HOST}`;
+}
+
+function parseMonths(text: string): number {
+	const years = /(\d+)\s*year/i.exec(text)?.[1];
+	const months = /(\d+)\s*month/i.exec(text)?.[1];
+	return Number(years ?? 0) * 12 + Number(months ?? 0);
+}
+
+function parseBadges(badges: YTBadge[] = []) {
+	const result = {
+		badges: [] as string[],
+		months: 0,
+		mod: false,
+		subscriber: false,
+	};
+	for (const { liveChatAuthorBadgeRenderer: badge } of badges) {
+		switch (badge.icon?.iconType.toUpperCase()) {
+			case 'OWNER':
+				result.badges.push('broadcaster/1');
+				break;
+			case 'MODERATOR':
+				result.mod = true;
+				result.badges.push('moderator/1');
+				break;
+			case 'VERIFIED':
+				result.badges.push('partner/1');
+				break;
+			default:
+				if (badge.customThumbnail) {
+					result.subscriber = true;
+					result.months = parseMonths(badge.tooltip);
+				}
+		}
+	}
+	if (result.subscriber) result.badges.push(`subscriber/${result.months}`);
+	return result;
+}
+
+function parseUnix(unix: string): number {
+	return Math.round(Number(unix) / 1000);
+}
+
+/**
+ * Emits chat as Twitch-flavoured IRCv3 so that existing Twitch bots and
+ * overlays can read YouTube chat without changes.
+ */
 export class IRCMessageAdapter extends MessageAdapter {
+	public static readonly hasState = false;
+	// Twitch clients expect the welcome and their JOIN before any chat
+	public readonly hasHandshake = true;
+
 	public sockets = new Set<WebSocket>();
 
-	transform(action: LiveChatAction<string>): string | undefined {
-		throw new Error('Method not implemented.');
+	private readonly room: string;
+	private nicks = new WeakMap<WebSocket, string>();
+	private recentMessages = new Map<string, { login: string; text: string }>();
+	private recentLogins = new Map<string, string>();
+
+	constructor(
+		_env: Env,
+		private youtubeChannelId: string,
+		private options: AdapterOptions = DEFAULT_ADAPTER_OPTIONS
+	) {
+		super();
+		this.room = `#${(youtubeChannelId || 'youtube').toLowerCase()}`;
+	}
+
+	transform(action: LiveChatAction): string | undefined {
+		const deletion = getDeletion(action);
+		if (deletion) return this.formatDeletion(deletion);
+
+		const actionType = Object.keys(action)[0] as keyof LiveChatAction;
+		const item = action[actionType]?.item;
+		if (!item) return;
+		const rendererType = Object.keys(item)[0] as keyof ChatItemRenderer;
+		switch (rendererType) {
+			case 'liveChatTextMessageRenderer': {
+				const renderer = item[rendererType];
+				const { tags, login } = this.userTags(renderer);
+				const text = parseYTString(renderer.message, this.options.emoji);
+				this.remember(this.recentMessages, renderer.id, { login, text });
+				return formatLine(
+					{
+						...tags,
+						emotes: '',
+						id: renderer.id,
+						'tmi-sent-ts': parseUnix(renderer.timestampUsec),
+					},
+					userSource(login),
+					`PRIVMSG ${this.room}`,
+					text
+				);
+			}
+			case 'liveChatMembershipItemRenderer': {
+				const renderer = item[rendererType];
+				const { tags, login } = this.userTags(renderer);
+				const milestone = renderer.headerPrimaryText
+					? parseYTString(renderer.headerPrimaryText)
+					: undefined;
+				const message = renderer.message
+					? parseYTString(renderer.message, this.options.emoji)
+					: undefined;
+				return this.userNotice(
+					{
+						...tags,
+						id: renderer.id,
+						login,
+						'msg-id': milestone ? 'resub' : 'sub',
+						'msg-param-cumulative-months': milestone
+							? parseMonths(milestone)
+							: 1,
+						'system-msg': `${tags['display-name']} ${
+							milestone ?? parseYTString(renderer.headerSubtext)
+						}`,
+						'tmi-sent-ts': parseUnix(renderer.timestampUsec),
+					},
+					message || undefined
+				);
+			}
+			case 'liveChatPaidMessageRenderer': {
+				const renderer = item[rendererType];
+				const { tags, login } = this.userTags(renderer);
+				const amount = parseYTString(renderer.purchaseAmountText);
+				const message = parseYTString(renderer.message, this.options.emoji);
+				return this.userNotice(
+					{
+						...tags,
+						id: renderer.id,
+						login,
+						'msg-id': 'superchat',
+						'msg-param-amount': amount,
+						'system-msg': `${tags['display-name']} sent a Super Chat for ${amount}`,
+						'tmi-sent-ts': parseUnix(renderer.timestampUsec),
+					},
+					message || undefined
+				);
+			}
+			case 'liveChatSponsorshipsGiftRedemptionAnnouncementRenderer': {
+				const renderer = item[rendererType];
+				const recipient = parseYTString(renderer.authorName);
+				const runs = renderer.message.runs;
+				let gifter = 'Unknown';
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				if (runs?.length === 2 && 'text' in runs[1]!) gifter = runs[1].text;
+				const gifterLogin = toLogin(gifter, 'unknown');
+				return this.userNotice({
+					'display-name': gifter,
+					id: renderer.id,
+					login: gifterLogin,
+					'msg-id': 'subgift',
+					'msg-param-months': 1,
+					'msg-param-recipient-display-name': recipient,
+					'msg-param-recipient-id': renderer.authorExternalChannelId,
+					'msg-param-recipient-user-name': toLogin(
+						recipient,
+						renderer.authorExternalChannelId
+					),
+					'room-id': this.youtubeChannelId,
+					'system-msg': `${gifter} gifted a membership to ${recipient}`,
+					'tmi-sent-ts': parseUnix(renderer.timestampUsec),
+				});
+			}
+		}
+	}
+
+	serialize(event: ServerEvent): string | undefined {
+		if ('debug' in event) {
+			return formatLine(
+				{ 'msg-id': 'debug' },
+				HOST,
+				`NOTICE ${this.room}`,
+				event.message
+			);
+		}
+		if (event.type === 'ping') return `PING :${HOST}\r\n`;
+		if (event.type === 'gap') {
+			return formatLine(
+				{
+					'msg-id': 'gap',
+					'msg-param-from': event.from,
+					'msg-param-to': event.to,
+				},
+				HOST,
+				`NOTICE ${this.room}`,
+				`Missed events ${event.from} to ${event.to} are no longer available`
+			);
+		}
+		if (event.type === 'dropped') {
+			return formatLine(
+				{
+					'msg-id': 'dropped',
+					'msg-param-count': event.count,
+					'msg-param-total': event.total,
+				},
+				HOST,
+				`NOTICE ${this.room}`,
+				`${event.count} messages were dropped because the queue was full`
+			);
+		}
+		if (event.type === 'stream_ended' || event.type === 'stream_started') {
+			return formatLine(
+				{ 'msg-id': event.type, 'msg-param-video-id': event.videoId },
+				HOST,
+				`NOTICE ${this.room}`,
+				event.type === 'stream_ended'
+					? 'The stream has ended'
+					: `A new stream started: ${event.title}`
+			);
+		}
+		if (event.type === 'stream_status') {
+			return formatLine(
+				{
+					'msg-id': event.type,
+					'msg-param-status': event.status,
+					'msg-param-scheduled-start': event.scheduledStartAt ?? '',
+				},
+				HOST,
+				`NOTICE ${this.room}`,
+				STREAM_STATUS_TEXT[event.status]
+			);
+		}
+		if (event.type === 'command') {
+			const displayName = event.author.name.replace(/^@/, '');
+			const login = toLogin(displayName, event.author.id);
+			return formatLine(
+				{
+					'msg-id': 'command',
+					'msg-param-command': event.command,
+					'msg-param-args': JSON.stringify(event.args),
+					'display-name': displayName,
+					id: event.id ?? '',
+					'user-id': event.author.id,
+				},
+				userSource(login),
+				`USERNOTICE ${this.room}`,
+				event.message
+			);
+		}
+		if (event.type === 'poll_update' || event.type === 'poll_result') {
+			const tallies = event.options
+				.map(
+					(option, i) =>
+						`${i + 1}. ${option.label}: ${Math.round(option.ratio * 100)}%`
+				)
+				.join(', ');
+			return formatLine(
+				{
+					'msg-id': event.type,
+					'msg-param-poll-id': event.id,
+					'msg-param-source': event.source,
+					'msg-param-options': JSON.stringify(event.options),
+				},
+				HOST,
+				`NOTICE ${this.room}`,
+				event.question ? `${event.question} ${tallies}` : tallies
+			);
+		}
+		if (event.type === 'ack' || event.type === 'error') {
+			return formatLine(
+				{
+					'msg-id': event.type,
+					'msg-param-command': event.command ?? '',
+					'msg-param-id': event.id ?? '',
+				},
+				HOST,
+				`NOTICE ${this.room}`,
+				event.type === 'error'
+					? event.message
+					: JSON.stringify(event.data ?? {})
+			);
+		}
+	}
+
+	sequence(payload: string, seq: number): string {
+		if (payload.startsWith('@')) return `@seq=${seq};${payload.slice(1)}`;
+		return `@seq=${seq} ${payload}`;
+	}
+
+	eventName(payload: string): string {
+		// The command follows the optional tags and source prefix
+		const parts = payload.replace(/^@\S+ /, '').split(' ');
+		const command = parts[0]?.startsWith(':') ? parts[1] : parts[0];
+		return command?.trim().toLowerCase() || 'message';
+	}
+
+	/**
+	 * Answers the handshake Twitch clients perform after connecting. Anything
+	 * sent to chat (PRIVMSG) is ignored since this connection is read-only.
+	 */
+	receive(socket: WebSocket, message: string): string[] {
+		const replies: string[] = [];
+		for (const line of message.split(/\r?\n/)) {
+			const [command, ...params] = line.trim().split(' ');
+			const nick = this.nicks.get(socket) ?? ANONYMOUS_NICK;
+			switch (command?.toUpperCase()) {
+				case 'CAP': {
+					const subcommand = params[0]?.toUpperCase();
+					if (subcommand === 'LS') {
+						replies.push(
+							formatLine(undefined, HOST, 'CAP * LS', CAPABILITIES.join(' '))
+						);
+					} else if (subcommand === 'REQ') {
+						const requested = line.slice(line.indexOf(':') + 1);
+						replies.push(formatLine(undefined, HOST, 'CAP * ACK', requested));
+					}
+					break;
+				}
+				case 'NICK': {
+					const requested = params[0]?.toLowerCase() || ANONYMOUS_NICK;
+					this.nicks.set(socket, requested);
+					replies.push(...this.welcome(requested));
+					break;
+				}
+				case 'JOIN': {
+					// Clients that skip NICK are welcomed as anonymous, like Twitch does
+					if (!this.nicks.has(socket)) {
+						this.nicks.set(socket, nick);
+						replies.push(...this.welcome(nick));
+					}
+					// Every connection belongs to exactly one stream, so whatever channel
+					// the client asks for, it joins the stream's room.
+					const source = `${nick}.${HOST}`;
+					replies.push(
+						formatLine(undefined, userSource(nick), `JOIN ${this.room}`),
+						formatLine(undefined, source, `353 ${nick} = ${this.room}`, nick),
+						formatLine(
+							undefined,
+							source,
+							`366 ${nick} ${this.room}`,
+							'End of /NAMES list'
+						),
+						formatLine(
+							{
+								'emote-only': 0,
+								'followers-only': -1,
+								r9k: 0,
+								'room-id': this.youtubeChannelId,
+								slow: 0,
+								'subs-only': 0,
+							},
+							HOST,
+							`ROOMSTATE ${this.room}`
+						)
+					);
+					break;
+				}
+				case 'PART':
+					replies.push(
+						formatLine(undefined, userSource(nick), `PART ${this.room}`)
+					);
+					break;
+				case 'PING':
+					replies.push(
+						`PONG :${line.slice(line.indexOf(':') + 1) || HOST}\r\n`
+					);
+					break;
+			}
+		}
+		return replies;
+	}
+
+	/** The handshake is over once the client has joined the room. */
+	completesHandshake(message: string): boolean {
+		return message
+			.split(/\r?\n/)
+			.some((line) => line.trim().split(' ')[0]?.toUpperCase() === 'JOIN');
+	}
+
+	private welcome(nick: string): string[] {
+		return [
+			formatLine(undefined, HOST, `001 ${nick}`, 'Welcome, GLHF!'),
+			formatLine(undefined, HOST, `002 ${nick}`, `Your host is ${HOST}`),
+			formatLine(undefined, HOST, `003 ${nick}`, 'This server is rather new'),
+			formatLine(undefined, HOST, `004 ${nick}`, '-'),
+			formatLine(undefined, HOST, `375 ${nick}`, '-'),
+			formatLine(
+				undefined,
+				HOST,
+				`372 ${nick}`,
+				'You are in a maze of twisty passages, all alike.'
+			),
+			formatLine(undefined, HOST, `376 ${nick}`, '>'),
+		];
+	}
+
+	private formatDeletion(deletion: ChatDeletion) {
+		const now = Date.now();
+		if (deletion.type === 'delete') {
+			const message = this.recentMessages.get(deletion.targetId);
+			return formatLine(
+				{
+					login: message?.login ?? '',
+					'room-id': this.youtubeChannelId,
+					'target-msg-id': deletion.targetId,
+					'tmi-sent-ts': now,
+				},
+				HOST,
+				`CLEARMSG ${this.room}`,
+				message?.text ?? ''
+			);
+		}
+
+		return formatLine(
+			{
+				'room-id': this.youtubeChannelId,
+				'target-user-id': deletion.authorId,
+				'tmi-sent-ts': now,
+			},
+			HOST,
+			`CLEARCHAT ${this.room}`,
+			this.recentLogins.get(deletion.authorId) ??
+				deletion.authorId.toLowerCase()
+		);
+	}
+
+	private userTags(author: Author) {
+		const displayName = parseYTString(author.authorName).replace(/^@/, '');
+		const login = toLogin(displayName, author.authorExternalChannelId);
+		this.remember(this.recentLogins, author.authorExternalChannelId, login);
+		const { badges, months, mod, subscriber } = parseBadges(
+			author.authorBadges
+		);
+		const tags: Tags = {
+			'badge-info': subscriber ? `subscriber/${months}` : '',
+			badges: badges.join(','),
+			color: getUsernameColor(author.authorExternalChannelId).toUpperCase(),
+			'display-name': displayName,
+			mod: mod ? 1 : 0,
+			'room-id': this.youtubeChannelId,
+			subscriber: subscriber ? 1 : 0,
+			'user-id': author.authorExternalChannelId,
+			'user-type': mod ? 'mod' : '',
+		};
+		return { tags, login };
+	}
+
+	private userNotice(tags: Tags, message?: string): string {
+		return formatLine(tags, HOST, `USERNOTICE ${this.room}`, message);
+	}
+
+	private remember<T>(map: Map<string, T>, key: string, value: T) {
+		map.delete(key);
+		map.set(key, value);
+		if (map.size > RECENT_MAX) {
+			const oldest = map.keys().next().value;
+			if (oldest !== undefined) map.delete(oldest);
+		}
 	}
 }
@@ -1,20 +1,39 @@
-import { ChatItemRenderer, LiveChatAction } from '@util/types';
-import { parseYTString } from '@util/youtube';
-import { MessageAdapter } from '.';
+import {
+	ChatItemRenderer,
+	LiveChatAction,
+	YTBadge,
+	YTString,
+} from '@util/types';
+import {
+	getDeletion,
+	getSuperchatTier,
+	getImageUrl,
+	MessageRun,
+	parseYTRuns,
+	parseYTString,
+	toHexColor,
+} from '@util/youtube';
+import { Amount, getAmount, getUSDRates, USDRates } from '@util/currency';
+import { Env } from '..';
+import { AdapterOptions, DEFAULT_ADAPTER_OPTIONS, MessageAdapter } from '.';
+
+type Badge = {
+	tooltip: string;
+	type: 'icon' | 'custom';
+	badge: string;
+};
 
 export type ChatEvent =
 	| {
 			type: 'message';
 			id: string;
 			message: string;
+			// Only with ?format=runs
+			runs?: MessageRun[];
 			author: {
 				name: string;
 				id: string;
-				badges: {
-					tooltip: string;
-					type: 'icon' | 'custom';
-					badge: string;
-				}[];
+				badges: Badge[];
 			};
 			unix: number;
 	  }
@@ -31,24 +50,138 @@ export type ChatEvent =
 			type: 'superchat';
 			id: string;
 			message: string;
-			amount: {
-				// cents: number;
-				text: string;
+			// Only with ?format=runs
+			runs?: MessageRun[];
+			amount: Amount;
+			colors: {
+				header: string;
+				headerText: string;
+				body: string;
+				bodyText: string;
+			};
+			// 1 (blue) to 7 (red)
+			tier?: number;
+			author: {
+				name: string;
+				id: string;
+			};
+			unix: number;
+	  }
+	| {
+			type: 'sticker';
+			id: string;
+			sticker: {
+				image: string;
+				label: string;
 			};
+			amount: Amount;
 			author: {
 				name: string;
 				id: string;
+				badges: Badge[];
+			};
+			unix: number;
+	  }
+	| {
+			type: 'giftpurchase';
+			id: string;
+			count: number;
+			gifter: {
+				name: string;
+				id: string;
+				badges: Badge[];
+			};
+			unix: number;
+	  }
+	| {
+			type: 'modechange';
+			id: string;
+			mode: 'slow' | 'members_only' | 'other';
+			enabled: boolean;
+			text: string;
+			subtext: string;
+			unix: number;
+	  }
+	| {
+			type: 'moderation';
+			id: string;
+			message: string;
+			unix: number;
+	  }
+	| {
+			type: 'engagement';
+			id: string;
+			icon: string;
+			message: string;
+			unix: number;
+	  }
+	| {
+			type: 'ticker';
+			id: string;
+			kind: 'superchat' | 'membership' | 'sticker';
+			// The superchat amount, or the membership tier/duration
+			text: string;
+			author: {
+				id: string;
+				photo: string;
+			};
+			durationSec: number;
+			fullDurationSec: number;
+			unix: number;
+	  }
+	| {
+			type: 'delete';
+			targetId: string;
+			unix: number;
+	  }
+	| {
+			type: 'author_purge';
+			author: {
+				id: string;
 			};
 			unix: number;
 	  };
 
+function parseBadges(badges: YTBadge[] = []): Badge[] {
+	return badges.map(({ liveChatAuthorBadgeRenderer: badge }) => ({
+		tooltip: badge.tooltip,
+		type: badge.icon ? 'icon' : 'custom',
+		badge: badge.icon
+			? badge.icon.iconType
+			: badge.customThumbnail?.thumbnails?.[0]?.url ?? '',
+	}));
+}
+
+function parseMode(
+	iconType: string | undefined,
+	text: string
+): 'slow' | 'members_only' | 'other' {
+	if (iconType === 'SLOW_MODE' || /slow mode/i.test(text)) return 'slow';
+	if (iconType === 'MEMBERS_ONLY_MODE' || /members[- ]only/i.test(text))
+		return 'members_only';
+	return 'other';
+}
+
 function parseUnix(unix: string): number {
 	return Math.round(Number(unix) / 1000);
 }
 
 export class JSONMessageAdapter extends MessageAdapter {
+	public static readonly hasState = false;
+
 	public sockets = new Set<WebSocket>();
 
+	private rates: USDRates;
+
+	constructor(
+		env?: Env,
+		_youtubeChannelId?: string,
+		private options: AdapterOptions = DEFAULT_ADAPTER_OPTIONS
+	) {
+		super();
+		this.rates = getUSDRates(env?.USD_RATES);
+	}
+
 	transform(action: LiveChatAction): string | undefined {
 		const parsed = this.parseAction(action);
 		if (parsed) return JSON.stringify(parsed);
@@ -56,6 +189,18 @@ export class JSONMessageAdapter extends MessageAdapter {
 
 	protected parseAction(data: LiveChatAction): ChatEvent | undefined {
 		delete data.clickTrackingParams;
+		const deletion = getDeletion(data);
+		if (deletion?.type === 'delete') {
+			return { type: 'delete', targetId: deletion.targetId, unix: Date.now() };
+		}
+		if (deletion?.type === 'author_purge') {
+			return {
+				type: 'author_purge',
+				author: { id: deletion.authorId },
+				unix: Date.now(),
+			};
+		}
+
 		const actionType = Object.keys(data)[0] as keyof LiveChatAction;
 		const action = data[actionType]?.item;
 		if (!action) return;
@@ -65,21 +210,13 @@ export class JSONMessageAdapter extends MessageAdapter {
 				const renderer = action[rendererType];
 				return {
 					type: 'message',
-					message: parseYTString(renderer.message),
+					message: parseYTString(renderer.message, this.options.emoji),
+					...this.withRuns(renderer.message),
 					id: renderer.id,
 					author: {
 						id: renderer.authorExternalChannelId,
 						name: parseYTString(renderer.authorName),
-						badges:
-							renderer.authorBadges?.map(
-								({ liveChatAuthorBadgeRenderer: badge }) => ({
-									tooltip: badge.tooltip,
-									type: badge.icon ? 'icon' : 'custom',
-									badge: badge.icon
-										? badge.icon.iconType
-										: badge.customThumbnail?.thumbnails?.[0]?.url ?? '',
-								})
-							) ?? [],
+						badges: parseBadges(renderer.authorBadges),
 					},
 					unix: parseUnix(renderer.timestampUsec),
 				};
@@ -98,25 +235,160 @@ export class JSONMessageAdapter extends MessageAdapter {
 			}
 			case 'liveChatPaidMessageRenderer': {
 				const renderer = action[rendererType];
+				const amount = getAmount(
+					parseYTString(renderer.purchaseAmountText),
+					this.rates
+				);
 				return {
 					type: 'superchat',
 					id: renderer.id,
-					message: parseYTString(renderer.message),
+					message: parseYTString(renderer.message, this.options.emoji),
+					...this.withRuns(renderer.message),
 					author: {
 						id: renderer.authorExternalChannelId,
 						name: parseYTString(renderer.authorName),
 					},
-					amount: {
-						// cents: renderer.purchaseAmountMicros / 1000000,
-						text: parseYTString(renderer.purchaseAmountText),
+					amount,
+					colors: {
+						header: toHexColor(renderer.headerBackgroundColor),
+						headerText: toHexColor(renderer.headerTextColor),
+						body: toHexColor(renderer.bodyBackgroundColor),
+						bodyText: toHexColor(renderer.bodyTextColor),
 					},
+					tier: getSuperchatTier(renderer.headerBackgroundColor, amount.usd),
 					unix: parseUnix(renderer.timestampUsec),
 				};
 			}
+			case 'liveChatPaidStickerRenderer': {
+				const renderer = action[rendererType];
+				return {
+					type: 'sticker',
+					id: renderer.id,
+					sticker: {
+						image: getImageUrl(renderer.sticker),
+						label:
+							renderer.sticker.accessibility?.accessibilityData.label ?? '',
+					},
+					amount: getAmount(
+						parseYTString(renderer.purchaseAmountText),
+						this.rates
+					),
+					author: {
+						id: renderer.authorExternalChannelId,
+						name: parseYTString(renderer.authorName),
+						badges: parseBadges(renderer.authorBadges),
+					},
+					unix: parseUnix(renderer.timestampUsec),
+				};
+			}
+			case 'liveChatSponsorshipsGiftPurchaseAnnouncementRenderer': {
+				const renderer = action[rendererType];
+				const header = renderer.header.liveChatSponsorshipsHeaderRenderer;
+				// e.g. "Gifted 5 Channel memberships"
+				const count = /\d+/.exec(parseYTString(header.primaryText))?.[0];
+				return {
+					type: 'giftpurchase',
+					id: renderer.id,
+					count: Number(count ?? 1),
+					gifter: {
+						id: renderer.authorExternalChannelId,
+						name: parseYTString(header.authorName),
+						badges: parseBadges(header.authorBadges),
+					},
+					unix: parseUnix(renderer.timestampUsec),
+				};
+			}
+			case 'liveChatModeChangeMessageRenderer': {
+				const renderer = action[rendererType];
+				const text = parseYTString(renderer.text);
+				return {
+					type: 'modechange',
+					id: renderer.id,
+					mode: parseMode(renderer.icon?.iconType, text),
+					enabled: !/\b(off|disabled)\b/i.test(text),
+					text,
+					subtext: parseYTString(renderer.subtext),
+					unix: parseUnix(renderer.timestampUsec),
+				};
+			}
+			case 'liveChatModerationMessageRenderer': {
+				const renderer = action[rendererType];
+				return {
+					type: 'moderation',
+					id: renderer.id,
+					message: parseYTString(renderer.message),
+					unix: parseUnix(renderer.timestampUsec),
+				};
+			}
+			case 'liveChatViewerEngagementMessageRenderer': {
+				const renderer = action[rendererType];
+				return {
+					type: 'engagement',
+					id: renderer.id,
+					icon: renderer.icon?.iconType ?? '',
+					message: parseYTString(renderer.message),
+					unix: renderer.timestampUsec
+						? parseUnix(renderer.timestampUsec)
+						: Date.now(),
+				};
+			}
+			case 'liveChatTickerPaidMessageItemRenderer': {
+				const renderer = action[rendererType];
+				return {
+					type: 'ticker',
+					id: renderer.id,
+					kind: 'superchat',
+					text: parseYTString(renderer.amountText ?? renderer.amount),
+					author: {
+						id: renderer.authorExternalChannelId,
+						photo: getImageUrl(renderer.authorPhoto),
+					},
+					durationSec: renderer.durationSec,
+					fullDurationSec: renderer.fullDurationSec,
+					unix: Date.now(),
+				};
+			}
+			case 'liveChatTickerSponsorItemRenderer': {
+				const renderer = action[rendererType];
+				return {
+					type: 'ticker',
+					id: renderer.id,
+					kind: 'membership',
+					text: parseYTString(renderer.detailText),
+					author: {
+						id: renderer.authorExternalChannelId,
+						photo: getImageUrl(renderer.sponsorPhoto),
+					},
+					durationSec: renderer.durationSec,
+					fullDurationSec: renderer.fullDurationSec,
+					unix: Date.now(),
+				};
+			}
+			case 'liveChatTickerPaidStickerItemRenderer': {
+				const renderer = action[rendererType];
+				return {
+					type: 'ticker',
+					id: renderer.id,
+					kind: 'sticker',
+					text: '',
+					author: {
+						id: renderer.authorExternalChannelId,
+						photo: getImageUrl(renderer.authorPhoto),
+					},
+					durationSec: renderer.durationSec,
+					fullDurationSec: renderer.fullDurationSec,
+					unix: Date.now(),
+				};
+			}
 			// default: {
 			// 	console.log(rendererType, action[rendererType]);
 			// 	return;
 			// }
 		}
 	}
+
+	private withRuns(message: YTString): { runs?: MessageRun[] } {
+		if (this.options.format !== 'runs') return {};
+		return { runs: parseYTRuns(message) };
+	}
 }
@@ -2,6 +2,8 @@ import { LiveChatAction } from '@util/types';
 import { MessageAdapter } from '.';
 
 export class RawMessageAdapter extends MessageAdapter {
+	public static readonly hasState = false;
+
 	public sockets = new Set<WebSocket>();
 
 	transform(action: LiveChatAction): string | undefined {
@@ -0,0 +1,88 @@
+import { err, ok } from 'neverthrow';
+import { Result } from '@util/types';
+import { EmojiMode, EMOJI_MODES } from '@util/youtube';
+import { Env } from '..';
+import { AdapterOptions, DEFAULT_ADAPTER_OPTIONS, MessageAdapter } from '.';
+import { IRCMessageAdapter } from './irc';
+import { JSONMessageAdapter } from './json';
+import { RawMessageAdapter } from './raw';
+import { SubathonMessageAdapter } from './subathon';
+import { TruffleMessageAdapter } from './truffle';
+
+type AdapterConstructor = {
+	new (
+		env: Env,
+		youtubeChannelId: string,
+		options: AdapterOptions
+	): MessageAdapter;
+	readonly hasState: boolean;
+};
+
+export const ADAPTERS = {
+	json: JSONMessageAdapter,
+	raw: RawMessageAdapter,
+	irc: IRCMessageAdapter,
+	truffle: TruffleMessageAdapter,
+	subathon: SubathonMessageAdapter,
+} satisfies Record<string, AdapterConstructor>;
+
+export type AdapterName = keyof typeof ADAPTERS;
+
+/**
+ * Adapters that need to know which channel they are serving. Their state is
+ * fetched per channel, so they cannot be built until the channel ID is known.
+ */
+const NEEDS_CHANNEL: ReadonlySet<AdapterName> = new Set(['truffle']);
+
+export function isAdapterName(name: string): name is AdapterName {
+	return Object.prototype.hasOwnProperty.call(ADAPTERS, name);
+}
+
+export function createAdapter(
+	name: AdapterName,
+	env: Env,
+	youtubeChannelId: string | null,
+	options: AdapterOptions
+): Result<MessageAdapter, [string, number]> {
+	if (NEEDS_CHANNEL.has(name) && !youtubeChannelId) {
+		return err([`Adapter "${name}" requires the stream's channel ID`, 400]);
+	}
+	const Adapter: AdapterConstructor = ADAPTERS[name];
+	return ok(new Adapter(env, youtubeChannelId ?? '', options));
+}
+
+export function parseAdapterOptions(
+	params: URLSearchParams
+): Result<AdapterOptions, [string, number]> {
+	const format = params.get('format') ?? DEFAULT_ADAPTER_OPTIONS.format;
+	if (format !== 'text' && format !== 'runs') {
+		return err([
+			`Unknown format "${format}". Expected one of: text, runs`,
+			400,
+		]);
+	}
+	const emoji = params.get('emoji') ?? DEFAULT_ADAPTER_OPTIONS.emoji;
+	if (!EMOJI_MODES.includes(emoji as EmojiMode)) {
+		return err([
+			`Unknown emoji mode "${emoji}". Expected one of: ${EMOJI_MODES.join(
+				', '
+			)}`,
+			400,
+		]);
+	}
+	return ok({ format, emoji: emoji as EmojiMode });
+}
+
+/** Sockets share an outbox only when they share an adapter and its options. */
+export function getAdapterKey(name: AdapterName, options: AdapterOptions) {
+	return `${name}?format=${options.format}&emoji=${options.emoji}`;
+}
+
+export function unknownAdapter(name: string) {
+	return err<never, [string, number]>([
+		`Unknown adapter "${name}". Expected one of: ${Object.keys(ADAPTERS).join(
+			', '
+		)}`,
+		400,
+	]);
+}
@@ -1,6 +1,15 @@
 import { ChatItemRenderer, LiveChatAction } from '@util/types';
-import { parseYTString } from '@util/youtube';
-import { MessageAdapter } from '.';
+import {
+	getDeletion,
+	getSuperchatTier,
+	MessageRun,
+	parseYTRuns,
+	parseYTString,
+	toHexColor,
+} from '@util/youtube';
+import { Amount, getAmount, getUSDRates, USDRates } from '@util/currency';
+import { Env } from '..';
+import { AdapterOptions, DEFAULT_ADAPTER_OPTIONS, MessageAdapter } from '.';
 
 export type ChatEvent =
 	| {
@@ -16,10 +25,17 @@ export type ChatEvent =
 			type: 'superchat';
 			id: string;
 			message: string;
-			amount: {
-				// cents: number;
-				text: string;
+			// Only with ?format=runs
+			runs?: MessageRun[];
+			amount: Amount;
+			colors: {
+				header: string;
+				headerText: string;
+				body: string;
+				bodyText: string;
 			};
+			// 1 (blue) to 7 (red)
+			tier?: number;
 			author: {
 				name: string;
 				id: string;
@@ -35,6 +51,18 @@ export type ChatEvent =
 			};
 			gifter: string;
 			unix: number;
+	  }
+	| {
+			type: 'delete';
+			targetId: string;
+			unix: number;
+	  }
+	| {
+			type: 'author_purge';
+			author: {
+				id: string;
+			};
+			unix: number;
 	  };
 
 function parseUnix(unix: string): number {
@@ -42,8 +70,21 @@ function parseUnix(unix: string): number {
 }
 
 export class SubathonMessageAdapter extends MessageAdapter {
+	public static readonly hasState = false;
+
 	public sockets = new Set<WebSocket>();
 
+	private rates: USDRates;
+
+	constructor(
+		env?: Env,
+		_youtubeChannelId?: string,
+		private options: AdapterOptions = DEFAULT_ADAPTER_OPTIONS
+	) {
+		super();
+		this.rates = getUSDRates(env?.USD_RATES);
+	}
+
 	transform(action: LiveChatAction): string | undefined {
 		const parsed = this.parseAction(action);
 		if (parsed) return JSON.stringify(parsed);
@@ -51,6 +92,18 @@ export class SubathonMessageAdapter extends MessageAdapter {
 
 	protected parseAction(data: LiveChatAction): ChatEvent | undefined {
 		delete data.clickTrackingParams;
+		const deletion = getDeletion(data);
+		if (deletion?.type === 'delete') {
+			return { type: 'delete', targetId: deletion.targetId, unix: Date.now() };
+		}
+		if (deletion?.type === 'author_purge') {
+			return {
+				type: 'author_purge',
+				author: { id: deletion.authorId },
+				unix: Date.now(),
+			};
+		}
+
 		const actionType = Object.keys(data)[0] as keyof LiveChatAction;
 		const action = data[actionType]?.item;
 		if (!action) return;
@@ -70,18 +123,29 @@ export class SubathonMessageAdapter extends MessageAdapter {
 			}
 			case 'liveChatPaidMessageRenderer': {
 				const renderer = action[rendererType];
+				const amount = getAmount(
+					parseYTString(renderer.purchaseAmountText),
+					this.rates
+				);
 				return {
 					type: 'superchat',
 					id: renderer.id,
-					message: parseYTString(renderer.message),
+					message: parseYTString(renderer.message, this.options.emoji),
+					...(this.options.format === 'runs' && {
+						runs: parseYTRuns(renderer.message),
+					}),
 					author: {
 						id: renderer.authorExternalChannelId,
 						name: parseYTString(renderer.authorName),
 					},
-					amount: {
-						// cents: renderer.purchaseAmountMicros / 1000000,
-						text: parseYTString(renderer.purchaseAmountText),
+					amount,
+					colors: {
+						header: toHexColor(renderer.headerBackgroundColor),
+						headerText: toHexColor(renderer.headerTextColor),
+						body: toHexColor(renderer.bodyBackgroundColor),
+						bodyText: toHexColor(renderer.bodyTextColor),
 					},
+					tier: getSuperchatTier(renderer.headerBackgroundColor, amount.usd),
 					unix: parseUnix(renderer.timestampUsec),
 				};
 			}
@@ -1,4 +1,5 @@
 import { ChatItemRenderer, LiveChatAction } from '@util/types';
+import { getDeletion } from '@util/youtube';
 import { Env } from 'src';
 import { MessageAdapter } from '.';
 import {
@@ -28,7 +29,23 @@ export type TruffleChatEvent = {
 	unix: number;
 };
 
+export type TruffleDeletionEvent =
+	| {
+			type: 'delete';
+			targetId: string;
+			unix: number;
+	  }
+	| {
+			type: 'author_purge';
+			author: {
+				id: string;
+			};
+			unix: number;
+	  };
+
 export class TruffleMessageAdapter extends MessageAdapter {
+	public static readonly hasState = true;
+
 	public sockets = new Set<WebSocket>();
 
 	constructor(private env: Env, private youtubeChannelId: string) {
@@ -92,7 +109,21 @@ export class TruffleMessageAdapter extends MessageAdapter {
 		if (parsed) return JSON.stringify(parsed);
 	}
 
-	protected parseAction(data: LiveChatAction): TruffleChatEvent | undefined {
+	protected parseAction(
+		data: LiveChatAction
+	): TruffleChatEvent | TruffleDeletionEvent | undefined {
+		const deletion = getDeletion(data);
+		if (deletion?.type === 'delete') {
+			return { type: 'delete', targetId: deletion.targetId, unix: Date.now() };
+		}
+		if (deletion?.type === 'author_purge') {
+			return {
+				type: 'author_purge',
+				author: { id: deletion.authorId },
+				unix: Date.now(),
+			};
+		}
+
 		const actionType = Object.keys(data)[0] as keyof LiveChatAction;
 		const action = data[actionType]?.item;
 		if (!action) return;
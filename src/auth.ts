@@ -0,0 +1,182 @@
+import { err, ok } from 'neverthrow';
+import { Env } from '.';
+import { Handler, Result } from '@util/types';
+import { notFound } from '@util/util';
+import { API_KEY_PREFIX, LeaseRequest, NewApiKey } from './ApiKeys';
+
+// Offered next to a key as a WebSocket subprotocol, and the one the server picks
+export const WEBSOCKET_PROTOCOL = 'ytchat';
+
+/** Whether connecting to chat needs an API key, see REQUIRE_API_KEY. */
+export function isAuthRequired(env: Env): boolean {
+	return env.REQUIRE_API_KEY === 'true';
+}
+
+/**
+ * The API key sent with `?key=`, `Authorization: Bearer`, or as a WebSocket
+ * subprotocol for browsers, which can't set headers: `['ytchat', key]`.
+ */
+export function getApiKey(request: Request): string | undefined {
+	const fromQuery = new URL(request.url).searchParams.get('key');
+	if (fromQuery) return fromQuery;
+	const bearer = /^Bearer (.+)$/.exec(
+		request.headers.get('Authorization') ?? ''
+	)?.[1];
+	if (bearer) return bearer;
+	return getProtocols(request).find((protocol) =>
+		protocol.startsWith(API_KEY_PREFIX)
+	);
+}
+
+/**
+ * Headers for a WebSocket upgrade response. Browsers drop the connection
+ * unless the server picks one of the subprotocols they offered.
+ */
+export function getProtocolHeaders(request: Request): HeadersInit {
+	return getProtocols(request).includes(WEBSOCKET_PROTOCOL)
+		? { 'Sec-WebSocket-Protocol': WEBSOCKET_PROTOCOL }
+		: {};
+}
+
+/** Rejects requests without a valid key before their handler scrapes anything. */
+export function withApiKey<T extends Record<string, string>>(
+	handler: Handler<T>
+): Handler<T> {
+	return async (request, env) => {
+		if (!isAuthRequired(env)) return handler(request, env);
+		const key = getApiKey(request);
+		if (!key) return err(['API key required', 401]);
+		const res = await callApiKeys(env, 'verify', { key });
+		if (!res.ok) return err([await res.text(), res.status]);
+		return handler(request, env);
+	};
+}
+
+/** Guards a route with `Authorization: Bearer <ADMIN_TOKEN>`. Without ADMIN_TOKEN set, it doesn't exist. */
+export function withAdminToken<T extends Record<string, string>>(
+	handler: Handler<T>
+): Handler<T> {
+	return async (request, env) => {
+		if (!env.ADMIN_TOKEN) return notFound;
+		const token = /^Bearer (.+)$/.exec(
+			request.headers.get('Authorization') ?? ''
+		)?.[1];
+		if (!isAdminToken(env, token)) return err(['Unauthorized', 401]);
+		return handler(request, env);
+	};
+}
+
+/** Whether a token is the ADMIN_TOKEN, compared in constant time. */
+export function isAdminToken(env: Env, token: string | undefined): boolean {
+	if (!env.ADMIN_TOKEN || token === undefined) return false;
+	return timingSafeEqual(token, env.ADMIN_TOKEN);
+}
+
+/**
+ * Takes a lease on one connection for the request's API key, which the chat
+ * Durable Object holds until the client disconnects. Resolves to undefined
+ * when keys aren't required.
+ */
+export async function acquireLease(
+	request: Request,
+	env: Env,
+	stream: Omit<LeaseRequest, 'key'>
+): Promise<Result<string | undefined, [string, number]>> {
+	if (!isAuthRequired(env)) return ok(undefined);
+	const key = getApiKey(request);
+	if (!key) return err(['API key required', 401]);
+	const res = await callApiKeys(env, 'acquire', { ...stream, key });
+	if (!res.ok) return err([await res.text(), res.status]);
+	const { lease } = await res.json<{ lease: string }>();
+	return ok(lease);
+}
+
+/** Extends leases, resolving to the ones whose key has been revoked. */
+export async function renewLeases(
+	env: Env,
+	leases: string[]
+): Promise<string[]> {
+	try {
+		const res = await callApiKeys(env, 'renew', { leases });
+		if (!res.ok) return [];
+		const { revoked } = await res.json<{ revoked: string[] }>();
+		return revoked;
+	} catch {
+		// Leases outlive a few missed renewals
+		return [];
+	}
+}
+
+export async function releaseLeases(env: Env, leases: string[]) {
+	try {
+		await callApiKeys(env, 'release', { leases });
+	} catch {
+		// Unreleased leases run out on their own
+	}
+}
+
+/** Checks the body of `POST /admin/keys`. */
+export function parseNewApiKey(value: unknown): Result<NewApiKey, string> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return err('Expected a JSON object');
+	}
+	const fields = value as Record<string, unknown>;
+	if (typeof fields.name !== 'string' || !fields.name) {
+		return err('name must be a string');
+	}
+	for (const key of ['maxConnections', 'maxStreams'] as const) {
+		const limit = fields[key];
+		if (
+			limit !== undefined &&
+			(typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)
+		) {
+			return err(`${key} must be a positive whole number`);
+		}
+	}
+	const channels = fields.channels;
+	if (
+		channels !== undefined &&
+		(!Array.isArray(channels) || channels.some((c) => typeof c !== 'string'))
+	) {
+		return err('channels must be a list of channels');
+	}
+	return ok({
+		name: fields.name,
+		maxConnections: fields.maxConnections as number | undefined,
+		maxStreams: fields.maxStreams as number | undefined,
+		channels,
+	});
+}
+
+/** Forwards a request to the one ApiKeys Durable Object. */
+export function forwardToApiKeys(
+	env: Env,
+	path: string,
+	init?: RequestInit
+): Promise<Response> {
+	const keys = env.API_KEYS.get(env.API_KEYS.idFromName('global'));
+	return keys.fetch(`http://youtube.chat/${path}`, init);
+}
+
+function callApiKeys(env: Env, path: string, body: unknown) {
+	return forwardToApiKeys(env, path, {
+		method: 'POST',
+		body: JSON.stringify(body),
+	});
+}
+
+function getProtocols(request: Request): string[] {
+	const header = request.headers.get('Sec-WebSocket-Protocol') ?? '';
+	return header
+		.split(',')
+		.map((protocol) => protocol.trim())
+		.filter(Boolean);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const left = encoder.encode(a);
+	const right = encoder.encode(b);
+	if (left.byteLength !== right.byteLength) return false;
+	return crypto.subtle.timingSafeEqual(left, right);
+}
@@ -0,0 +1,324 @@
+import { err, ok } from 'neverthrow';
+import { LiveChatAction, Result } from '@util/types';
+import {
+	AuthorRole,
+	ChatAuthor,
+	getActionAuthor,
+	getActionId,
+	getActionMessage,
+	getActionTimestamp,
+} from '@util/youtube';
+
+/**
+ * How one argument is read from a command's words:
+ * - `int` a whole number
+ * - `string` one word
+ * - `mention` one `@name`, given without the `@`
+ * - `rest` everything left, which makes it the last argument
+ */
+export type ArgType = 'int' | 'string' | 'mention' | 'rest';
+
+export type CommandArg = { name: string; type: ArgType; optional?: boolean };
+
+export type CommandRole = Exclude<AuthorRole, 'verified'>;
+
+export type CommandSpec = {
+	name: string;
+	aliases?: string[];
+	args?: CommandArg[];
+	// Authors need one of these roles. Owners can use every command.
+	roles?: CommandRole[];
+	// Seconds before the same author, or anyone, can use the command again
+	userCooldown?: number;
+	globalCooldown?: number;
+};
+
+/**
+ * The commands a connection wants parsed from chat. With `alongside`, chat
+ * messages that are commands are sent both as themselves and as a command
+ * event; with `instead`, only as the command event.
+ */
+export type CommandConfig = {
+	prefix: string;
+	mode: 'alongside' | 'instead';
+	commands: CommandSpec[];
+};
+
+/** A chat message recognized as a command. */
+export type CommandEvent = {
+	type: 'command';
+	command: string;
+	args: Record<string, string | number>;
+	// The message the command was parsed from
+	id?: string;
+	message: string;
+	author: ChatAuthor;
+	unix: number;
+};
+
+const ARG_TYPES: readonly ArgType[] = ['int', 'string', 'mention', 'rest'];
+const COMMAND_ROLES: readonly CommandRole[] = ['owner', 'moderator', 'member'];
+
+const MAX_COMMANDS = 50;
+const MAX_PREFIX_LENGTH = 5;
+const MAX_COOLDOWN_S = 3600;
+// Authors remembered for per-author cooldowns, oldest forgotten first
+const USER_COOLDOWNS_MAX = 5_000;
+
+/** Parses commands sent with the `commands` control command or `?commands=`. */
+export function parseCommandConfig(
+	value: unknown
+): Result<CommandConfig, string> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return err('commands must be an object');
+	}
+	const fields = value as Record<string, unknown>;
+
+	const prefix = fields.prefix ?? '!';
+	if (
+		typeof prefix !== 'string' ||
+		!prefix ||
+		prefix.length > MAX_PREFIX_LENGTH ||
+		/\s/.test(prefix)
+	) {
+		return err(
+			`prefix must be 1 to ${MAX_PREFIX_LENGTH} characters without spaces`
+		);
+	}
+	const mode = fields.mode ?? 'alongside';
+	if (mode !== 'alongside' && mode !== 'instead') {
+		return err('mode must be "alongside" or "instead"');
+	}
+	if (!Array.isArray(fields.commands) || !fields.commands.length) {
+		return err('commands must be a list of commands');
+	}
+	if (fields.commands.length > MAX_COMMANDS) {
+		return err(`At most ${MAX_COMMANDS} commands can be registered`);
+	}
+
+	const commands: CommandSpec[] = [];
+	const names = new Set<string>();
+	for (const entry of fields.commands) {
+		const spec = parseCommandSpec(entry);
+		if (spec.isErr()) return spec;
+		for (const name of [spec.value.name, ...(spec.value.aliases ?? [])]) {
+			if (names.has(name)) return err(`"${name}" is registered twice`);
+			names.add(name);
+		}
+		commands.push(spec.value);
+	}
+	return ok({ prefix, mode, commands });
+}
+
+/** Reads `?commands=<JSON>`, the same object the `commands` control command takes. */
+export function parseCommandParams(
+	params: URLSearchParams
+): Result<CommandConfig | undefined, [string, number]> {
+	const value = params.get('commands');
+	if (value === null) return ok(undefined);
+	let json: unknown;
+	try {
+		json = JSON.parse(value);
+	} catch {
+		return err(['commands must be JSON', 400]);
+	}
+	const config = parseCommandConfig(json);
+	if (config.isErr()) return err([config.error, 400]);
+	return config;
+}
+
+/** Equal configs get equal keys, so connections sharing one share an outbox and cooldowns. */
+export function getCommandsKey(config: CommandConfig | undefined): string {
+	return config ? JSON.stringify(config) : '';
+}
+
+/** Recognizes a group's commands in chat, keeping track of their cooldowns. */
+export class CommandParser {
+	private byName = new Map<string, CommandSpec>();
+	private lastUsedAt = new Map<string, number>();
+	private lastUsedBy = new Map<string, number>();
+
+	constructor(public readonly config: CommandConfig) {
+		for (const spec of config.commands) {
+			this.byName.set(spec.name, spec);
+			for (const alias of spec.aliases ?? []) this.byName.set(alias, spec);
+		}
+	}
+
+	/**
+	 * The command a chat message makes, if any. Commands by authors without
+	 * the roles for them, or still cooling down, are left as messages.
+	 */
+	parse(action: LiveChatAction, now = Date.now()): CommandEvent | undefined {
+		const message = getActionMessage(action)?.trim();
+		if (!message?.startsWith(this.config.prefix)) return;
+		const author = getActionAuthor(action);
+		if (!author) return;
+
+		const [name = '', ...words] = message
+			.slice(this.config.prefix.length)
+			.split(/\s+/);
+		const spec = this.byName.get(name.toLowerCase());
+		if (!spec || !hasRole(author, spec.roles)) return;
+		const args = parseArgs(spec.args ?? [], words);
+		if (!args) return;
+		if (!this.takeCooldown(spec, author.id, now)) return;
+
+		return {
+			type: 'command',
+			command: spec.name,
+			args,
+			id: getActionId(action),
+			message,
+			author,
+			unix: getActionTimestamp(action) ?? now,
+		};
+	}
+
+	private takeCooldown(spec: CommandSpec, authorId: string, now: number) {
+		const userKey = `${spec.name}:${authorId}`;
+		const usedAt = this.lastUsedAt.get(spec.name) ?? -Infinity;
+		const usedByAt = this.lastUsedBy.get(userKey) ?? -Infinity;
+		if (now - usedAt < (spec.globalCooldown ?? 0) * 1000) return false;
+		if (now - usedByAt < (spec.userCooldown ?? 0) * 1000) return false;
+
+		this.lastUsedAt.set(spec.name, now);
+		if (spec.userCooldown) {
+			// Re-inserted so the map stays in order of last use
+			this.lastUsedBy.delete(userKey);
+			this.lastUsedBy.set(userKey, now);
+			if (this.lastUsedBy.size > USER_COOLDOWNS_MAX) {
+				const oldest = this.lastUsedBy.keys().next().value;
+				if (oldest !== undefined) this.lastUsedBy.delete(oldest);
+			}
+		}
+		return true;
+	}
+}
+
+function parseCommandSpec(value: unknown): Result<CommandSpec, string> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return err('Each command must be an object');
+	}
+	const fields = value as Record<string, unknown>;
+	const name = parseName(fields.name);
+	if (!name) return err('Command names must be single words');
+	const fail = (message: string) => err(`${name}: ${message}`);
+
+	const aliases = fields.aliases ?? [];
+	if (!Array.isArray(aliases)) return fail('aliases must be a list of names');
+	const parsedAliases: string[] = [];
+	for (const alias of aliases) {
+		const parsed = parseName(alias);
+		if (!parsed) return fail('aliases must be single words');
+		parsedAliases.push(parsed);
+	}
+
+	const args = fields.args ?? [];
+	if (!Array.isArray(args)) return fail('args must be a list of arguments');
+	const parsedArgs: CommandArg[] = [];
+	for (const [i, arg] of args.entries()) {
+		if (typeof arg !== 'object' || arg === null) {
+			return fail('Each argument must be an object');
+		}
+		const { name: argName, type, optional } = arg as Record<string, unknown>;
+		if (typeof argName !== 'string' || !argName) {
+			return fail('Each argument needs a name');
+		}
+		if (!ARG_TYPES.includes(type as ArgType)) {
+			return fail(
+				`Unknown argument type "${type}". Expected one of: ${ARG_TYPES.join(
+					', '
+				)}`
+			);
+		}
+		if (type === 'rest' && i !== args.length - 1) {
+			return fail('Only the last argument can be rest');
+		}
+		const previous = parsedArgs[parsedArgs.length - 1];
+		if (previous?.optional && !optional) {
+			return fail('Required arguments must come before optional ones');
+		}
+		parsedArgs.push({
+			name: argName,
+			type: type as ArgType,
+			...(optional === true && { optional: true }),
+		});
+	}
+
+	const roles = fields.roles;
+	if (
+		roles !== undefined &&
+		(!Array.isArray(roles) ||
+			roles.some((role) => !COMMAND_ROLES.includes(role as CommandRole)))
+	) {
+		return fail(`roles must be a list of: ${COMMAND_ROLES.join(', ')}`);
+	}
+
+	for (const key of ['userCooldown', 'globalCooldown'] as const) {
+		const cooldown = fields[key];
+		if (
+			cooldown !== undefined &&
+			(typeof cooldown !== 'number' ||
+				!(cooldown >= 0 && cooldown <= MAX_COOLDOWN_S))
+		) {
+			return fail(`${key} must be from 0 to ${MAX_COOLDOWN_S} seconds`);
+		}
+	}
+
+	return ok({
+		name,
+		aliases: parsedAliases.length ? parsedAliases : undefined,
+		args: parsedArgs.length ? parsedArgs : undefined,
+		roles: roles?.length
+			? [...new Set(roles as CommandRole[])].sort()
+			: undefined,
+		userCooldown: (fields.userCooldown as number | undefined) || undefined,
+		globalCooldown: (fields.globalCooldown as number | undefined) || undefined,
+	});
+}
+
+// Matched case-insensitively, so stored lowercase
+function parseName(value: unknown): string | undefined {
+	if (typeof value !== 'string' || !/^\S{1,32}$/.test(value)) return;
+	return value.toLowerCase();
+}
+
+function hasRole(author: ChatAuthor, roles: CommandRole[] | undefined) {
+	if (!roles || author.roles.includes('owner')) return true;
+	return roles.some((role) => author.roles.includes(role));
+}
+
+// undefined when the words don't fit the arguments
+function parseArgs(
+	specs: CommandArg[],
+	words: string[]
+): Record<string, string | number> | undefined {
+	const args: Record<string, string | number> = {};
+	let next = 0;
+	for (const spec of specs) {
+		const word = words[next];
+		if (word === undefined || word === '') {
+			if (spec.optional) break;
+			return;
+		}
+		switch (spec.type) {
+			case 'int':
+				if (!/^[+-]?\d{1,15}$/.test(word)) return;
+				args[spec.name] = Number(word);
+				break;
+			case 'string':
+				args[spec.name] = word;
+				break;
+			case 'mention':
+				if (!/^@\S+$/.test(word)) return;
+				args[spec.name] = word.slice(1);
+				break;
+			case 'rest':
+				args[spec.name] = words.slice(next).join(' ');
+				break;
+		}
+		next++;
+	}
+	return args;
+}
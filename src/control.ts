@@ -0,0 +1,171 @@
+import { err, ok } from 'neverthrow';
+import { Result } from '@util/types';
+import { ConnectionFilter, parseFilter } from './filters';
+import { CommandConfig, parseCommandConfig } from './commands';
+import { parsePollInput, PollInput } from './polls';
+
+/** Echoed back in the reply so clients can match it to their command. */
+export type RequestId = string | number;
+
+/** Commands a client can send as JSON on an open WebSocket. */
+export type ControlCommand = { id?: RequestId } & (
+	| { type: 'adapter'; adapter: string; format?: string; emoji?: string }
+	| { type: 'subscribe'; events: string[] }
+	| { type: 'unsubscribe'; events: string[] }
+	| { type: 'filter'; filter: ConnectionFilter }
+	| { type: 'delivery'; mode?: string; interval?: number }
+	// null stops parsing commands
+	| { type: 'commands'; commands: CommandConfig | null }
+	// Need the ADMIN_TOKEN, see src/polls.ts
+	| { type: 'poll_start'; token: string; poll: PollInput }
+	| { type: 'poll_end'; token: string }
+	| { type: 'history'; count?: number; since?: number }
+	| { type: 'resume'; seq: number }
+	| { type: 'ping' }
+	| { type: 'pong' }
+	| { type: 'status' }
+);
+
+export type ControlError = {
+	message: string;
+	command?: string;
+	id?: RequestId;
+};
+
+const COMMANDS = new Set<ControlCommand['type']>([
+	'adapter',
+	'subscribe',
+	'unsubscribe',
+	'filter',
+	'delivery',
+	'commands',
+	'poll_start',
+	'poll_end',
+	'history',
+	'resume',
+	'ping',
+	'pong',
+	'status',
+]);
+
+/**
+ * Parses a client message. Returns undefined when it isn't a JSON object, so
+ * adapters with their own protocol (IRC) can handle it instead.
+ */
+export function parseControlMessage(
+	data: string
+): Result<ControlCommand, ControlError> | undefined {
+	let msg: unknown;
+	try {
+		msg = JSON.parse(data);
+	} catch {
+		return;
+	}
+	if (typeof msg !== 'object' || msg === null || Array.isArray(msg)) return;
+	const fields = msg as Record<string, unknown>;
+
+	const id =
+		typeof fields.id === 'string' || typeof fields.id === 'number'
+			? fields.id
+			: undefined;
+	const type = fields.type;
+	if (typeof type !== 'string') {
+		return err({ message: 'Missing command type', id });
+	}
+	if (!COMMANDS.has(type as ControlCommand['type'])) {
+		return err({ message: `Unknown command "${type}"`, command: type, id });
+	}
+	const fail = (message: string) => err({ message, command: type, id });
+
+	switch (type) {
+		case 'adapter': {
+			if (typeof fields.adapter !== 'string') return fail('Missing adapter');
+			for (const key of ['format', 'emoji'] as const) {
+				if (fields[key] !== undefined && typeof fields[key] !== 'string') {
+					return fail(`${key} must be a string`);
+				}
+			}
+			return ok({
+				type,
+				id,
+				adapter: fields.adapter,
+				format: fields.format as string | undefined,
+				emoji: fields.emoji as string | undefined,
+			});
+		}
+		case 'subscribe':
+		case 'unsubscribe': {
+			const events = parseEventList(fields.events);
+			if (!events?.length) return fail('events must be a list of event types');
+			return ok({ type, id, events });
+		}
+		case 'filter': {
+			const filter = parseFilter(fields.filter);
+			if (filter.isErr()) return fail(filter.error);
+			return ok({ type, id, filter: filter.value });
+		}
+		case 'delivery': {
+			if (fields.mode !== undefined && typeof fields.mode !== 'string') {
+				return fail('mode must be a string');
+			}
+			if (
+				fields.interval !== undefined &&
+				typeof fields.interval !== 'number'
+			) {
+				return fail('interval must be a number');
+			}
+			return ok({
+				type,
+				id,
+				mode: fields.mode as string | undefined,
+				interval: fields.interval as number | undefined,
+			});
+		}
+		case 'commands': {
+			if (fields.commands === null) return ok({ type, id, commands: null });
+			const commands = parseCommandConfig(fields.commands);
+			if (commands.isErr()) return fail(commands.error);
+			return ok({ type, id, commands: commands.value });
+		}
+		case 'poll_start':
+		case 'poll_end': {
+			if (typeof fields.token !== 'string') return fail('Missing token');
+			if (type === 'poll_end') return ok({ type, id, token: fields.token });
+			const poll = parsePollInput(fields);
+			if (poll.isErr()) return fail(poll.error);
+			return ok({ type, id, token: fields.token, poll: poll.value });
+		}
+		case 'history': {
+			const count = parseCount(fields.count);
+			const since = parseCount(fields.since);
+			if (count === null || since === null) {
+				return fail('count and since must be positive numbers');
+			}
+			if (count === undefined && since === undefined) {
+				return fail('Expected count or since');
+			}
+			return ok({ type, id, count, since });
+		}
+		case 'resume': {
+			const seq = Number(fields.seq);
+			if (!Number.isSafeInteger(seq) || seq < 0) {
+				return fail('seq must be a non-negative integer');
+			}
+			return ok({ type, id, seq });
+		}
+		default:
+			return ok({ type: type as 'ping' | 'pong' | 'status', id });
+	}
+}
+
+function parseEventList(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return;
+	return value.filter((event): event is string => typeof event === 'string');
+}
+
+// undefined when missing, null when invalid
+function parseCount(value: unknown): number | undefined | null {
+	if (value === undefined) return;
+	const count = Number(value);
+	return count > 0 ? count : null;
+}
@@ -0,0 +1,90 @@
+export type DedupeStats = {
+	// Actions dropped as already seen since this instance started
+	hits: number;
+	// Actions let through since this instance started
+	misses: number;
+	// Keys currently remembered for the video
+	tracked: number;
+	windowMs: number;
+};
+
+/**
+ * Keys of recently broadcast actions, stored in the Durable Object's SQLite
+ * database so a restart or a swapped continuation token never sends chat twice.
+ */
+export class SeenActions {
+	// Fresh continuation tokens hand back a few minutes of chat, so remember well past that
+	public static readonly WINDOW_MS = 30 * 60 * 1000;
+	// Caps a very busy stream, which would otherwise store every message in the window
+	public static readonly MAX_ROWS_PER_VIDEO = 20_000;
+
+	private hits = 0;
+	private misses = 0;
+
+	constructor(private sql: SqlStorage) {
+		sql.exec(`CREATE TABLE IF NOT EXISTS seen_actions (
+			video_id TEXT NOT NULL,
+			key TEXT NOT NULL,
+			seen_at INTEGER NOT NULL,
+			PRIMARY KEY (video_id, key)
+		)`);
+		sql.exec(
+			'CREATE INDEX IF NOT EXISTS seen_actions_seen_at ON seen_actions (video_id, seen_at)'
+		);
+	}
+
+	/** Records `key`, returning false when it was already seen within the window. */
+	track(videoId: string, key: string): boolean {
+		const now = Date.now();
+		const [row] = this.sql
+			.exec<{ seen_at: number }>(
+				'SELECT seen_at FROM seen_actions WHERE video_id = ? AND key = ?',
+				videoId,
+				key
+			)
+			.toArray();
+		if (row && row.seen_at >= now - SeenActions.WINDOW_MS) {
+			this.hits++;
+			return false;
+		}
+		this.sql.exec(
+			'INSERT OR REPLACE INTO seen_actions (video_id, key, seen_at) VALUES (?, ?, ?)',
+			videoId,
+			key,
+			now
+		);
+		this.misses++;
+		return true;
+	}
+
+	stats(videoId: string | null): DedupeStats {
+		const [row] = this.sql
+			.exec<{ tracked: number }>(
+				'SELECT COUNT(*) AS tracked FROM seen_actions WHERE video_id = ?',
+				videoId ?? ''
+			)
+			.toArray();
+		return {
+			hits: this.hits,
+			misses: this.misses,
+			tracked: row?.tracked ?? 0,
+			windowMs: SeenActions.WINDOW_MS,
+		};
+	}
+
+	/** Drops keys past the window and row limits. */
+	prune(videoId: string) {
+		this.sql.exec(
+			'DELETE FROM seen_actions WHERE seen_at < ?',
+			Date.now() - SeenActions.WINDOW_MS
+		);
+		this.sql.exec(
+			`DELETE FROM seen_actions WHERE video_id = ? AND seen_at <= (
+				SELECT seen_at FROM seen_actions WHERE video_id = ? ORDER BY seen_at DESC LIMIT 1 OFFSET ?
+			)`,
+			videoId,
+			videoId,
+			SeenActions.MAX_ROWS_PER_VIDEO
+		);
+	}
+}
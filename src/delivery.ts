@@ -0,0 +1,88 @@
+import { err, ok } from 'neverthrow';
+import { Result } from '@util/types';
+import { Frame } from './transports';
+
+/**
+ * How queued frames leave the Durable Object:
+ * - `paced` sends one frame every `interval` milliseconds
+ * - `batch` sends everything from one poll as a single frame
+ * - `realtime` spreads a poll's events out as far apart as they were sent
+ */
+export type DeliveryMode = 'paced' | 'batch' | 'realtime';
+
+export const DELIVERY_MODES: readonly DeliveryMode[] = [
+	'paced',
+	'batch',
+	'realtime',
+];
+
+export type DeliveryOptions = { mode: DeliveryMode; intervalMs: number };
+
+export const DEFAULT_DELIVERY: DeliveryOptions = {
+	mode: 'paced',
+	// One message every 100ms, so bursts don't get dropped by Resonite
+	intervalMs: 100,
+};
+
+const MIN_INTERVAL_MS = 10;
+const MAX_INTERVAL_MS = 10_000;
+
+export function parseDelivery(
+	mode: unknown,
+	interval: unknown
+): Result<DeliveryOptions, string> {
+	const parsedMode = mode ?? DEFAULT_DELIVERY.mode;
+	if (!DELIVERY_MODES.includes(parsedMode as DeliveryMode)) {
+		return err(
+			`Unknown delivery mode "${parsedMode}". Expected one of: ${DELIVERY_MODES.join(
+				', '
+			)}`
+		);
+	}
+	const intervalMs =
+		interval === undefined ? DEFAULT_DELIVERY.intervalMs : Number(interval);
+	if (
+		!Number.isInteger(intervalMs) ||
+		intervalMs < MIN_INTERVAL_MS ||
+		intervalMs > MAX_INTERVAL_MS
+	) {
+		return err(
+			`interval must be a whole number of milliseconds from ${MIN_INTERVAL_MS} to ${MAX_INTERVAL_MS}`
+		);
+	}
+	return ok({ mode: parsedMode as DeliveryMode, intervalMs });
+}
+
+/** Reads `?delivery=<mode>&interval=<ms>` from a connect URL. */
+export function parseDeliveryParams(
+	params: URLSearchParams
+): Result<DeliveryOptions, [string, number]> {
+	const delivery = parseDelivery(
+		params.get('delivery') ?? undefined,
+		params.get('interval') ?? undefined
+	);
+	if (delivery.isErr()) return err([delivery.error, 400]);
+	return delivery;
+}
+
+export function getDeliveryKey({ mode, intervalMs }: DeliveryOptions) {
+	// The interval only paces `paced` delivery
+	return mode === 'paced' ? `${mode}:${intervalMs}` : mode;
+}
+
+/**
+ * Joins frames into one: a JSON array for JSON adapters, or the lines back to
+ * back for line-based ones like IRC.
+ */
+export function batchFrames(frames: Frame[]): Frame {
+	const isJSON = frames.every(({ data }) => /^[[{]/.test(data));
+	const data = frames.map((frame) => frame.data);
+	const ids = frames.flatMap((frame) =>
+		frame.id === undefined ? [] : [frame.id]
+	);
+	return {
+		data: isJSON ? `[${data.join(',')}]` : data.join(''),
+		event: 'batch',
+		id: ids.length ? Math.max(...ids) : undefined,
+	};
+}
@@ -0,0 +1,296 @@
+import { err, ok } from 'neverthrow';
+import { getAmount, USDRates } from '@util/currency';
+import { LiveChatAction, Result } from '@util/types';
+import {
+	AuthorRole,
+	AUTHOR_ROLES,
+	ChatAuthor,
+	getActionAmountText,
+	getActionAuthor,
+	getActionMessage,
+	getDeletion,
+} from '@util/youtube';
+
+/**
+ * Which chat events a connection receives. Every field that is set must
+ * match. Server events such as pings and replies always get through, and so
+ * do deletions, so clients can still retract what they have shown.
+ */
+export type ConnectionFilter = {
+	// Event `type`s (or lowercased IRC commands) to receive only, or never
+	events?: string[];
+	exclude?: string[];
+	// Authors with at least one of these roles
+	roles?: AuthorRole[];
+	// Super Chats and Super Stickers worth at least this many US dollars
+	minAmount?: number;
+	// Author channel IDs or names, case-insensitive
+	authors?: string[];
+	blocked?: string[];
+	// Message text containing any of these, case-insensitive
+	keywords?: string[];
+	// Message text matching this regular expression, case-insensitive
+	match?: string;
+};
+
+const LIST_FIELDS = [
+	'events',
+	'exclude',
+	'roles',
+	'authors',
+	'blocked',
+	'keywords',
+] as const;
+
+// Long patterns are more likely to backtrack badly on every message
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Finds what could make a pattern backtrack exponentially and block the
+ * stream: backreferences, and repeating a group that already holds a
+ * quantifier or alternatives, as in `(a+)+$` or `(a|a)*$`.
+ */
+function findBacktrackingRisk(pattern: string): string | undefined {
+	// For each open group, whether it holds a quantifier or alternatives
+	const groups: boolean[] = [];
+	// Whether the atom a quantifier would apply to is such a group
+	let riskyAtom = false;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern.charAt(i);
+		if (char === '\\') {
+			if (/[1-9k]/.test(pattern[++i] ?? '')) return 'backreferences';
+			riskyAtom = false;
+		} else if (char === '[') {
+			// Character classes end at the first unescaped ], which can't come first
+			for (i += pattern[i + 1] === ']' ? 2 : 1; i < pattern.length; i++) {
+				if (pattern[i] === '\\') i++;
+				else if (pattern[i] === ']') break;
+			}
+			riskyAtom = false;
+		} else if (char === '(') {
+			groups.push(false);
+			// Skip the ?:, ?=, ?!, ?<=, ?<! or ?<name> that changes the group's kind
+			if (pattern[i + 1] === '?') {
+				const kind = /^\?(?:<[A-Za-z_$][\w$]*>|<=|<!|[:=!])/.exec(
+					pattern.slice(i + 1)
+				);
+				i += kind?.[0].length ?? 0;
+			}
+		} else if (char === ')') {
+			riskyAtom = groups.pop() ?? false;
+			if (riskyAtom && groups.length) groups[groups.length - 1] = true;
+		} else if (char === '|') {
+			if (groups.length) groups[groups.length - 1] = true;
+		} else if ('*+?{'.includes(char)) {
+			const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/.exec(
+				pattern.slice(i)
+			);
+			// A { that doesn't start a quantifier is a literal
+			if (!quantifier) {
+				riskyAtom = false;
+				continue;
+			}
+			if (riskyAtom && char !== '?') return 'a repeated group that repeats';
+			if (groups.length) groups[groups.length - 1] = true;
+			i += quantifier[0].length - 1;
+			riskyAtom = false;
+		} else {
+			riskyAtom = false;
+		}
+	}
+}
+
+/** Parses a filter sent with the `filter` control command. */
+export function parseFilter(value: unknown): Result<ConnectionFilter, string> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return err('filter must be an object');
+	}
+	const fields = value as Record<string, unknown>;
+
+	const lists: Partial<Record<(typeof LIST_FIELDS)[number], string[]>> = {};
+	for (const key of LIST_FIELDS) {
+		const list = fields[key];
+		if (list === undefined) continue;
+		if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+			return err(`${key} must be a list of strings`);
+		}
+		lists[key] = list;
+	}
+
+	const roles = lists.roles?.map((role) => role.toLowerCase());
+	const unknownRole = roles?.find(
+		(role) => !AUTHOR_ROLES.includes(role as AuthorRole)
+	);
+	if (unknownRole !== undefined) {
+		return err(
+			`Unknown role "${unknownRole}". Expected one of: ${AUTHOR_ROLES.join(
+				', '
+			)}`
+		);
+	}
+
+	const { minAmount, match } = fields;
+	if (
+		minAmount !== undefined &&
+		(typeof minAmount !== 'number' || !(minAmount >= 0))
+	) {
+		return err('minAmount must be a non-negative number');
+	}
+	if (match !== undefined) {
+		if (typeof match !== 'string') return err('match must be a string');
+		if (match.length > MAX_PATTERN_LENGTH) {
+			return err(`match must be at most ${MAX_PATTERN_LENGTH} characters`);
+		}
+		try {
+			new RegExp(match, 'i');
+		} catch {
+			return err(`match is not a valid regular expression`);
+		}
+		const risk = findBacktrackingRisk(match);
+		if (risk) return err(`match can't use ${risk}`);
+	}
+
+	return ok(
+		normalizeFilter({
+			...lists,
+			roles: roles as AuthorRole[] | undefined,
+			minAmount: minAmount as number | undefined,
+			match: match as string | undefined,
+		})
+	);
+}
+
+/**
+ * Parses a filter from connect URL params, where lists are comma-separated:
+ * `?events=superchat,sticker&roles=member&minAmount=5&match=^!`
+ */
+export function parseFilterParams(
+	params: URLSearchParams
+): Result<ConnectionFilter, [string, number]> {
+	const fields: Record<string, unknown> = {};
+	for (const key of LIST_FIELDS) {
+		const value = params.get(key);
+		if (value !== null) fields[key] = value.split(',').filter(Boolean);
+	}
+	const minAmount = params.get('minAmount');
+	if (minAmount !== null) fields.minAmount = Number(minAmount);
+	const match = params.get('match');
+	if (match !== null) fields.match = match;
+
+	const filter = parseFilter(fields);
+	if (filter.isErr()) return err([filter.error, 400]);
+	return filter;
+}
+
+/** Equal filters get equal keys, so connections sharing one share an outbox. */
+export function getFilterKey(filter: ConnectionFilter): string {
+	return JSON.stringify(filter);
+}
+
+/** Adds `events` to the filter, undoing any earlier unsubscribe. */
+export function subscribeEvents(
+	filter: ConnectionFilter,
+	events: string[]
+): ConnectionFilter {
+	return normalizeFilter({
+		...filter,
+		events: [...(filter.events ?? []), ...events],
+		exclude: filter.exclude?.filter((event) => !events.includes(event)),
+	});
+}
+
+export function unsubscribeEvents(
+	filter: ConnectionFilter,
+	events: string[]
+): ConnectionFilter {
+	return normalizeFilter({
+		...filter,
+		events: filter.events?.filter((event) => !events.includes(event)),
+		exclude: [...(filter.exclude ?? []), ...events],
+	});
+}
+
+export class ChatFilter {
+	private pattern?: RegExp;
+	private keywords?: string[];
+
+	constructor(
+		public readonly rules: ConnectionFilter,
+		private rates?: USDRates
+	) {
+		if (rules.match) this.pattern = new RegExp(rules.match, 'i');
+		this.keywords = rules.keywords?.map((keyword) => keyword.toLowerCase());
+	}
+
+	/** Checks the event type an adapter gave its output. */
+	acceptsEvent(event: string): boolean {
+		if (this.rules.events && !this.rules.events.includes(event)) return false;
+		return !this.rules.exclude?.includes(event);
+	}
+
+	/** Checks the event type of an action's frame, which deletions skip. */
+	acceptsFrame(action: LiveChatAction, event: string): boolean {
+		return !!getDeletion(action) || this.acceptsEvent(event);
+	}
+
+	/** Checks everything about an action except its event type. */
+	matches(action: LiveChatAction): boolean {
+		if (getDeletion(action)) return true;
+		const { roles, authors, blocked, minAmount } = this.rules;
+
+		const author = getActionAuthor(action);
+		if (roles || authors) {
+			if (!author) return false;
+			if (roles && !roles.some((role) => author.roles.includes(role))) {
+				return false;
+			}
+			if (authors && !matchesAuthor(author, authors)) return false;
+		}
+		if (blocked && author && matchesAuthor(author, blocked)) return false;
+
+		if (minAmount !== undefined) {
+			const text = getActionAmountText(action);
+			// Amounts that can't be converted are let through rather than lost
+			const usd =
+				text === undefined ? undefined : getAmount(text, this.rates).usd;
+			if (usd !== undefined && usd < minAmount) return false;
+		}
+
+		if (this.keywords || this.pattern) {
+			const text = getActionMessage(action);
+			if (text === undefined) return false;
+			const lower = text.toLowerCase();
+			if (this.keywords && !this.keywords.some((k) => lower.includes(k))) {
+				return false;
+			}
+			if (this.pattern && !this.pattern.test(text)) return false;
+		}
+		return true;
+	}
+}
+
+function matchesAuthor(author: ChatAuthor, list: string[]) {
+	return list.some(
+		(entry) =>
+			entry === author.id.toLowerCase() || entry === author.name.toLowerCase()
+	);
+}
+
+// Fixed field order and sorted lists, so equal filters serialize equally
+function normalizeFilter(filter: ConnectionFilter): ConnectionFilter {
+	const list = (values?: string[]) =>
+		values?.length ? [...new Set(values)].sort() : undefined;
+	const lower = (values?: string[]) =>
+		list(values?.map((value) => value.replace(/^@/, '').toLowerCase()));
+	return {
+		// An emptied allowlist still means "nothing", unlike a missing one
+		events: filter.events && [...new Set(filter.events)].sort(),
+		exclude: list(filter.exclude),
+		roles: list(filter.roles) as AuthorRole[] | undefined,
+		minAmount: filter.minAmount,
+		authors: lower(filter.authors),
+		blocked: lower(filter.blocked),
+		keywords: list(filter.keywords),
+		match: filter.match,
+	};
+}
@@ -0,0 +1,113 @@
+import { LiveChatAction } from '@util/types';
+
+export type HistoryEntry = {
+	seq: number;
+	unix: number;
+	action: LiveChatAction;
+};
+
+type HistoryRow = {
+	seq: number;
+	unix: number;
+	action: string;
+};
+
+/**
+ * Chat backlog stored in the Durable Object's SQLite database, so clients
+ * that (re)connect mid-stream can be sent what they missed.
+ */
+export class ChatHistory {
+	// Enough to rebuild an overlay, without keeping whole streams around
+	public static readonly MAX_ROWS_PER_VIDEO = 2_000;
+	public static readonly MAX_AGE_MS = 6 * 60 * 60 * 1000;
+	public static readonly REPLAY_MAX = 500;
+
+	constructor(private sql: SqlStorage) {
+		sql.exec(`CREATE TABLE IF NOT EXISTS chat_history (
+			video_id TEXT NOT NULL,
+			seq INTEGER NOT NULL,
+			unix INTEGER NOT NULL,
+			action TEXT NOT NULL,
+			PRIMARY KEY (video_id, seq)
+		)`);
+		sql.exec(
+			'CREATE INDEX IF NOT EXISTS chat_history_unix ON chat_history (video_id, unix)'
+		);
+	}
+
+	/** The highest sequence number ever stored, across all videos. */
+	lastSeq(): number {
+		const [row] = this.sql
+			.exec<{ seq: number | null }>('SELECT MAX(seq) AS seq FROM chat_history')
+			.toArray();
+		return row?.seq ?? 0;
+	}
+
+	append(videoId: string, entry: HistoryEntry) {
+		this.sql.exec(
+			'INSERT OR REPLACE INTO chat_history (video_id, seq, unix, action) VALUES (?, ?, ?, ?)',
+			videoId,
+			entry.seq,
+			entry.unix,
+			JSON.stringify(entry.action)
+		);
+	}
+
+	/** The newest `count` entries, oldest first. */
+	latest(videoId: string, count: number): HistoryEntry[] {
+		const rows = this.sql
+			.exec<HistoryRow>(
+				'SELECT seq, unix, action FROM chat_history WHERE video_id = ? ORDER BY seq DESC LIMIT ?',
+				videoId,
+				Math.min(count, ChatHistory.REPLAY_MAX)
+			)
+			.toArray();
+		return rows.reverse().map(toEntry);
+	}
+
+	/** Entries at or after `unix` (milliseconds), oldest first. */
+	since(videoId: string, unix: number): HistoryEntry[] {
+		const rows = this.sql
+			.exec<HistoryRow>(
+				'SELECT seq, unix, action FROM chat_history WHERE video_id = ? AND unix >= ? ORDER BY seq DESC LIMIT ?',
+				videoId,
+				unix,
+				ChatHistory.REPLAY_MAX
+			)
+			.toArray();
+		return rows.reverse().map(toEntry);
+	}
+
+	/** The newest entries after `seq`, at most REPLAY_MAX, oldest first. */
+	after(videoId: string, seq: number): HistoryEntry[] {
+		const rows = this.sql
+			.exec<HistoryRow>(
+				'SELECT seq, unix, action FROM chat_history WHERE video_id = ? AND seq > ? ORDER BY seq DESC LIMIT ?',
+				videoId,
+				seq,
+				ChatHistory.REPLAY_MAX
+			)
+			.toArray();
+		return rows.reverse().map(toEntry);
+	}
+
+	/** Drops entries past the age and row limits. */
+	prune(videoId: string) {
+		this.sql.exec(
+			'DELETE FROM chat_history WHERE unix < ?',
+			Date.now() - ChatHistory.MAX_AGE_MS
+		);
+		this.sql.exec(
+			`DELETE FROM chat_history WHERE video_id = ? AND seq <= (
+				SELECT seq FROM chat_history WHERE video_id = ? ORDER BY seq DESC LIMIT 1 OFFSET ?
+			)`,
+			videoId,
+			videoId,
+			ChatHistory.MAX_ROWS_PER_VIDEO
+		);
+	}
+}
+
+function toEntry(row: HistoryRow): HistoryEntry {
+	return { seq: row.seq, unix: row.unix, action: JSON.parse(row.action) };
+}
@@ -1,24 +1,87 @@
 import { IHTTPMethods, Router } from 'itty-router';
-import { getChannel } from './routes/channel';
+import { createApiKey, listApiKeys, revokeApiKey } from './routes/admin';
+import { getChannel, getChannelLives } from './routes/channel';
+import { getMetrics, getStreamMetrics } from './routes/metrics';
+import { getMulti } from './routes/multi';
+import {
+	endChannelPoll,
+	endPoll,
+	getChannelPoll,
+	getPoll,
+	startChannelPoll,
+	startPoll,
+} from './routes/polls';
+import { getChannelStatus, getStatus } from './routes/status';
 import { getStream } from './routes/stream';
+import {
+	addChannelWebhook,
+	addWebhook,
+	getChannelWebhooks,
+	getWebhooks,
+	removeChannelWebhook,
+	removeWebhook,
+} from './routes/webhooks';
 import { HandlerResult } from '@util/types';
 import { notFound } from '@util/util';
+import { withAdminToken, withApiKey } from './auth';
 
 // --- THE FIX IS HERE ---
 // Changed V3 to V4 to match your new Durable Object class name
 export { YoutubeChatV4 } from './YoutubeChat'; 
+export { MetricsRegistry } from './MetricsRegistry';
+export { ApiKeys } from './ApiKeys';
+export { ChannelCache } from './ChannelCache';
 
 export interface Env {
 	CHAT_DB: DurableObjectNamespace;
+	METRICS: DurableObjectNamespace;
+	API_KEYS: DurableObjectNamespace;
+	CHANNELS: DurableObjectNamespace;
 	TRUFFLE_API_BASE: string;
+	// JSON object of currency units per USD, overriding the bundled rates
+	USD_RATES?: string;
+	// "true" makes connecting to chat need an API key
+	REQUIRE_API_KEY?: string;
+	// Bearer token for /admin routes, which don't exist without it
+	ADMIN_TOKEN?: string;
+	// "true" lets webhooks target http and private addresses, for local development
+	ALLOW_PRIVATE_WEBHOOKS?: string;
 }
 
 function route(request: Request, env: Env): Promise<HandlerResult> {
 	const router = Router<Request, IHTTPMethods>();
 
-	router.get('/c/:id', getChannel);
-	router.get('/s/:id', getStream);
-	router.get('/v/:id', getStream);
+	router.get('/c/:id', withApiKey(getChannel));
+	router.get('/s/:id', withApiKey(getStream));
+	router.get('/v/:id', withApiKey(getStream));
+	router.get('/sse/c/:id', withApiKey(getChannel));
+	router.get('/sse/s/:id', withApiKey(getStream));
+	router.get('/sse/v/:id', withApiKey(getStream));
+	router.get('/multi', withApiKey(getMulti));
+	router.get('/lives/c/:id', withApiKey(getChannelLives));
+	router.get('/status/c/:id', getChannelStatus);
+	router.get('/status/:id', getStatus);
+	router.get('/metrics', getMetrics);
+	router.get('/metrics/:id', getStreamMetrics);
+	// Channel routes first, since /webhooks/c/:id also looks like a video's target
+	router.get('/webhooks/c/:id', withAdminToken(getChannelWebhooks));
+	router.post('/webhooks/c/:id', withAdminToken(addChannelWebhook));
+	router.delete(
+		'/webhooks/c/:id/:target',
+		withAdminToken(removeChannelWebhook)
+	);
+	router.get('/webhooks/:id', withAdminToken(getWebhooks));
+	router.post('/webhooks/:id', withAdminToken(addWebhook));
+	router.delete('/webhooks/:id/:target', withAdminToken(removeWebhook));
+	router.get('/polls/c/:id', getChannelPoll);
+	router.post('/polls/c/:id', withAdminToken(startChannelPoll));
+	router.delete('/polls/c/:id', withAdminToken(endChannelPoll));
+	router.get('/polls/:id', getPoll);
+	router.post('/polls/:id', withAdminToken(startPoll));
+	router.delete('/polls/:id', withAdminToken(endPoll));
+	router.get('/admin/keys', withAdminToken(listApiKeys));
+	router.post('/admin/keys', withAdminToken(createApiKey));
+	router.delete('/admin/keys/:id', withAdminToken(revokeApiKey));
 	router.all('*', () => notFound);
 
 	return router.handle(request, env);
@@ -0,0 +1,137 @@
+const PREFIX = 'ytchat_';
+
+const FAMILIES = {
+	polls: { type: 'counter', help: 'Requests for new chat sent to YouTube' },
+	poll_errors: { type: 'counter', help: 'Failed chat requests, by class' },
+	heal_attempts: { type: 'counter', help: 'Session refreshes after a stall' },
+	heal_successes: {
+		type: 'counter',
+		help: 'Session refreshes that found a new continuation token',
+	},
+	events: { type: 'counter', help: 'Chat events received, by type' },
+	events_sent: {
+		type: 'counter',
+		help: 'Events delivered to clients, by adapter',
+	},
+	outbox_drops: {
+		type: 'counter',
+		help: 'Events dropped from full outboxes, by adapter',
+	},
+	dedupe_hits: { type: 'counter', help: 'Repeated chat events dropped' },
+	webhook_deliveries: {
+		type: 'counter',
+		help: 'Webhook delivery attempts, by result',
+	},
+	sockets: { type: 'gauge', help: 'Connected clients, by adapter' },
+	poll_interval_seconds: {
+		type: 'gauge',
+		help: 'Time until the next chat request',
+		unit: 'seconds',
+	},
+} as const;
+
+type Family = { type: 'counter' | 'gauge'; help: string; unit?: string };
+
+export type MetricName = keyof typeof FAMILIES;
+
+export type Labels = Record<string, string | number>;
+
+/**
+ * Values keyed by series, written as in OpenMetrics without the prefix and
+ * suffix: `events{type="liveChatTextMessageRenderer"}`.
+ */
+export type MetricSnapshot = Record<string, number>;
+
+export const OPENMETRICS_CONTENT_TYPE =
+	'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export class Metrics {
+	private values: Map<string, number>;
+
+	constructor(snapshot: MetricSnapshot = {}) {
+		this.values = new Map(Object.entries(snapshot));
+	}
+
+	inc(name: MetricName, labels: Labels = {}, by = 1) {
+		const key = seriesKey(name, labels);
+		this.values.set(key, (this.values.get(key) ?? 0) + by);
+	}
+
+	set(name: MetricName, value: number, labels: Labels = {}) {
+		this.values.set(seriesKey(name, labels), value);
+	}
+
+	/** Clears every series of a gauge, so labels that are gone don't linger. */
+	reset(name: MetricName) {
+		for (const key of this.values.keys()) {
+			if (familyOf(key) === name) this.values.delete(key);
+		}
+	}
+
+	snapshot(): MetricSnapshot {
+		return Object.fromEntries(this.values);
+	}
+}
+
+/** Adds labels to every series, such as the stream they were recorded by. */
+export function withLabels(
+	snapshot: MetricSnapshot,
+	labels: Labels
+): MetricSnapshot {
+	const extra = formatLabels(labels);
+	return Object.fromEntries(
+		Object.entries(snapshot).map(([key, value]) => {
+			const name = familyOf(key);
+			const own = key.slice(name.length + 1, -1);
+			const all = [extra, own].filter(Boolean).join(',');
+			return [all ? `${name}{${all}}` : name, value];
+		})
+	);
+}
+
+/** Formats snapshots as one OpenMetrics exposition, each family listed once. */
+export function formatOpenMetrics(snapshots: MetricSnapshot[]): string {
+	const lines: string[] = [];
+	for (const [name, family] of Object.entries(FAMILIES) as [
+		MetricName,
+		Family
+	][]) {
+		const fullName = PREFIX + name;
+		lines.push(`# TYPE ${fullName} ${family.type}`);
+		if (family.unit) lines.push(`# UNIT ${fullName} ${family.unit}`);
+		lines.push(`# HELP ${fullName} ${family.help}`);
+		const suffix = family.type === 'counter' ? '_total' : '';
+		for (const snapshot of snapshots) {
+			for (const [key, value] of Object.entries(snapshot)) {
+				if (familyOf(key) !== name) continue;
+				lines.push(`${fullName}${suffix}${key.slice(name.length)} ${value}`);
+			}
+		}
+	}
+	lines.push('# EOF');
+	return lines.join('\n') + '\n';
+}
+
+function seriesKey(name: MetricName, labels: Labels): string {
+	const formatted = formatLabels(labels);
+	return formatted ? `${name}{${formatted}}` : name;
+}
+
+function formatLabels(labels: Labels): string {
+	return Object.entries(labels)
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([key, value]) => `${key}="${escapeLabel(String(value))}"`)
+		.join(',');
+}
+
+function escapeLabel(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, '\\n');
+}
+
+function familyOf(key: string): string {
+	const brace = key.indexOf('{');
+	return brace === -1 ? key : key.slice(0, brace);
+}
@@ -0,0 +1,179 @@
+import { Json, JsonObject } from '@util/types';
+import { isObject } from '@util/util';
+
+/** Which stream a `/multi` event came from. */
+export type MultiSource = { videoId: string; channelId?: string };
+
+/**
+ * Tells a `/multi` client how one of its streams is doing. Sources that fail
+ * before their stream is found only have the `channel` they were asked for.
+ */
+export type SourceStatusEvent = {
+	type: 'source_status';
+	status: 'connected' | 'ended' | 'failed';
+	source: Partial<MultiSource> & { channel?: string };
+	message?: string;
+};
+
+type Buffered = { unix: number; payload: JsonObject };
+
+/**
+ * Fans one client socket in from several streams' sockets. Events are tagged
+ * with their `source`, held for a moment so streams that deliver at different
+ * times still arrive in timestamp order, and dropped when another source
+ * already sent the same chat item.
+ */
+export class MultiStream {
+	// Events from every source arriving within this long are sorted together
+	private static readonly MERGE_WINDOW_MS = 1_000;
+	private static readonly SEEN_MAX = 2_000;
+	private static readonly PING_INTERVAL_MS = 30_000;
+
+	private upstreams = new Map<WebSocket, MultiSource>();
+	private buffer: Buffered[] = [];
+	private flushTimer: ReturnType<typeof setTimeout> | undefined;
+	private pingTimer: ReturnType<typeof setInterval>;
+	// Event types and item IDs in the order they were seen, oldest evicted first
+	private seen = new Set<string>();
+
+	constructor(private client: WebSocket) {
+		client.addEventListener('message', ({ data }) => {
+			// Control commands apply to every source, and each one replies
+			for (const upstream of this.upstreams.keys()) {
+				this.trySend(upstream, data);
+			}
+		});
+		client.addEventListener('close', () => this.close());
+		client.addEventListener('error', () => this.close());
+		// Every source pings, so theirs are dropped and the client gets one of its own
+		this.pingTimer = setInterval(
+			() => this.trySend(this.client, JSON.stringify({ type: 'ping' })),
+			MultiStream.PING_INTERVAL_MS
+		);
+	}
+
+	/** Starts forwarding a source's events. */
+	add(upstream: WebSocket, source: MultiSource) {
+		upstream.accept();
+		this.upstreams.set(upstream, source);
+		upstream.addEventListener('message', ({ data }) => {
+			if (typeof data === 'string') this.receive(upstream, source, data);
+		});
+		upstream.addEventListener('close', () =>
+			this.remove(upstream, 'failed', 'Disconnected')
+		);
+		upstream.addEventListener('error', () =>
+			this.remove(upstream, 'failed', 'Connection error')
+		);
+		this.sendStatus({ type: 'source_status', status: 'connected', source });
+	}
+
+	/** Reports a source that could not be connected at all. */
+	fail(source: SourceStatusEvent['source'], message: string) {
+		this.sendStatus({
+			type: 'source_status',
+			status: 'failed',
+			source,
+			message,
+		});
+	}
+
+	private receive(upstream: WebSocket, source: MultiSource, data: string) {
+		let parsed: Json;
+		try {
+			parsed = JSON.parse(data);
+		} catch {
+			return;
+		}
+		// Batch delivery sends a poll's events as one array
+		const items = Array.isArray(parsed) ? parsed : [parsed];
+		for (const item of items) {
+			if (!item || !isObject(item)) continue;
+			if (item.type === 'ping') continue;
+			// Command events and tickers share their chat message's ID
+			if (typeof item.id === 'string') {
+				const key = `${item.type}:${item.id}`;
+				if (this.seen.has(key)) continue;
+				this.remember(key);
+			}
+			const unix = typeof item.unix === 'number' ? item.unix : Date.now();
+			this.buffer.push({ unix, payload: { ...item, source } });
+			if (item.type === 'stream_ended') {
+				this.remove(upstream, 'ended');
+			}
+		}
+		this.flushTimer ??= setTimeout(
+			() => this.flush(),
+			MultiStream.MERGE_WINDOW_MS
+		);
+	}
+
+	private flush() {
+		clearTimeout(this.flushTimer);
+		this.flushTimer = undefined;
+		// Stable, so events with the same timestamp keep their order
+		const events = this.buffer.sort((a, b) => a.unix - b.unix);
+		this.buffer = [];
+		for (const { payload } of events) {
+			this.trySend(this.client, JSON.stringify(payload));
+		}
+	}
+
+	private remember(key: string) {
+		this.seen.add(key);
+		if (this.seen.size <= MultiStream.SEEN_MAX) return;
+		const oldest = this.seen.values().next().value;
+		if (oldest !== undefined) this.seen.delete(oldest);
+	}
+
+	/** Stops listening to a source, closing the client once none are left. */
+	private remove(
+		upstream: WebSocket,
+		status: SourceStatusEvent['status'],
+		message?: string
+	) {
+		const source = this.upstreams.get(upstream);
+		if (!source) return;
+		this.upstreams.delete(upstream);
+		try {
+			upstream.close(1000, 'Stream ended');
+		} catch {
+			// Already closed
+		}
+		this.flush();
+		this.sendStatus({ type: 'source_status', status, source, message });
+		if (!this.upstreams.size) {
+			try {
+				this.client.close(1000, 'Every stream has ended');
+			} catch {
+				// Already closed
+			}
+			this.close();
+		}
+	}
+
+	private sendStatus(event: SourceStatusEvent) {
+		this.trySend(this.client, JSON.stringify(event));
+	}
+
+	private close() {
+		clearInterval(this.pingTimer);
+		clearTimeout(this.flushTimer);
+		for (const upstream of this.upstreams.keys()) {
+			try {
+				upstream.close(1000, 'Client disconnected');
+			} catch {
+				// Already closed
+			}
+		}
+		this.upstreams.clear();
+	}
+
+	private trySend(socket: WebSocket, data: string | ArrayBuffer) {
+		try {
+			socket.send(data);
+		} catch {
+			// The other end is gone, and its close handler cleans up
+		}
+	}
+}
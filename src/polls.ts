@@ -0,0 +1,292 @@
+import { err, ok } from 'neverthrow';
+import { LiveChatAction, PollRenderer, Result } from '@util/types';
+import {
+	getActionAuthor,
+	getActionMessage,
+	parseYTString,
+} from '@util/youtube';
+
+export type PollTally = {
+	label: string;
+	// Chat polls count voters. YouTube only shows each option's share.
+	votes?: number;
+	// Share of the (weighted) votes, from 0 to 1
+	ratio: number;
+};
+
+/** A poll's tallies, sent while it runs and once it has ended. */
+export type PollEvent = {
+	type: 'poll_update' | 'poll_result';
+	id: string;
+	// Run by this server from chat votes, or YouTube's own poll
+	source: 'chat' | 'youtube';
+	question?: string;
+	options: PollTally[];
+	// Everyone who voted, when known
+	voters?: number;
+	startedAt?: number;
+	endsAt?: number;
+};
+
+export type PollInput = {
+	question?: string;
+	options: string[];
+	// Seconds
+	duration: number;
+	// What a member's vote counts as, 1 by default
+	memberWeight: number;
+};
+
+/** A chat poll as stored with the session, so votes survive eviction. */
+export type StoredPoll = {
+	id: string;
+	input: PollInput;
+	startedAt: number;
+	votes: [authorId: string, option: number, weight: number][];
+};
+
+const MAX_OPTIONS = 10;
+const MAX_LABEL_LENGTH = 100;
+const MIN_DURATION_S = 10;
+const MAX_DURATION_S = 60 * 60;
+const MAX_MEMBER_WEIGHT = 10;
+
+/** Parses a poll to start, from the `poll_start` control command or `POST /polls`. */
+export function parsePollInput(value: unknown): Result<PollInput, string> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return err('Expected a JSON object');
+	}
+	const fields = value as Record<string, unknown>;
+	const { question, options, duration } = fields;
+	if (question !== undefined && typeof question !== 'string') {
+		return err('question must be a string');
+	}
+	if (
+		!Array.isArray(options) ||
+		options.length < 2 ||
+		options.length > MAX_OPTIONS ||
+		options.some(
+			(option) =>
+				typeof option !== 'string' ||
+				!option.trim() ||
+				option.length > MAX_LABEL_LENGTH
+		)
+	) {
+		return err(
+			`options must be a list of 2 to ${MAX_OPTIONS} labels, each at most ${MAX_LABEL_LENGTH} characters`
+		);
+	}
+	if (
+		typeof duration !== 'number' ||
+		!(duration >= MIN_DURATION_S && duration <= MAX_DURATION_S)
+	) {
+		return err(
+			`duration must be from ${MIN_DURATION_S} to ${MAX_DURATION_S} seconds`
+		);
+	}
+	const memberWeight = fields.memberWeight ?? 1;
+	if (
+		typeof memberWeight !== 'number' ||
+		!(memberWeight > 0 && memberWeight <= MAX_MEMBER_WEIGHT)
+	) {
+		return err(`memberWeight must be above 0 and at most ${MAX_MEMBER_WEIGHT}`);
+	}
+	return ok({
+		question: question || undefined,
+		options: (options as string[]).map((option) => option.trim()),
+		duration,
+		memberWeight,
+	});
+}
+
+/**
+ * A poll run from chat. Each author's first vote counts: a message that is
+ * just an option's number, or `!vote` with its number, letter or label.
+ */
+export class ChatPoll {
+	// Set when the tallies changed since the last update was sent, and since they were saved
+	public changed = false;
+	public unsaved = false;
+	private votes = new Map<string, { option: number; weight: number }>();
+
+	constructor(
+		public readonly id: string,
+		public readonly input: PollInput,
+		public readonly startedAt: number
+	) {}
+
+	static restore(stored: StoredPoll): ChatPoll {
+		const poll = new ChatPoll(stored.id, stored.input, stored.startedAt);
+		for (const [authorId, option, weight] of stored.votes) {
+			poll.votes.set(authorId, { option, weight });
+		}
+		return poll;
+	}
+
+	get endsAt(): number {
+		return this.startedAt + this.input.duration * 1000;
+	}
+
+	/** Counts a chat message as a vote, if it is one. */
+	vote(action: LiveChatAction): boolean {
+		const author = getActionAuthor(action);
+		const text = getActionMessage(action);
+		if (!author || text === undefined || this.votes.has(author.id)) {
+			return false;
+		}
+		const option = this.parseVote(text.trim());
+		if (option === undefined) return false;
+		const weight = author.roles.includes('member')
+			? this.input.memberWeight
+			: 1;
+		this.votes.set(author.id, { option, weight });
+		this.changed = true;
+		this.unsaved = true;
+		return true;
+	}
+
+	event(type: PollEvent['type']): PollEvent {
+		const votes = this.input.options.map(() => 0);
+		const weights = this.input.options.map(() => 0);
+		for (const { option, weight } of this.votes.values()) {
+			votes[option] = (votes[option] ?? 0) + 1;
+			weights[option] = (weights[option] ?? 0) + weight;
+		}
+		const total = weights.reduce((sum, weight) => sum + weight, 0);
+		return {
+			type,
+			id: this.id,
+			source: 'chat',
+			question: this.input.question,
+			options: this.input.options.map((label, i) => ({
+				label,
+				votes: votes[i] ?? 0,
+				ratio: total ? (weights[i] ?? 0) / total : 0,
+			})),
+			voters: this.votes.size,
+			startedAt: this.startedAt,
+			endsAt: this.endsAt,
+		};
+	}
+
+	toJSON(): StoredPoll {
+		return {
+			id: this.id,
+			input: this.input,
+			startedAt: this.startedAt,
+			votes: [...this.votes].map(([authorId, { option, weight }]) => [
+				authorId,
+				option,
+				weight,
+			]),
+		};
+	}
+
+	// The option's index, from `2`, `!vote 2`, `!vote B` or `!vote <label>`
+	private parseVote(text: string): number | undefined {
+		const command = /^!vote\s+(.+)$/i.exec(text)?.[1]?.trim();
+		const choice = command ?? text;
+		const { options } = this.input;
+		if (/^\d{1,2}$/.test(choice)) {
+			const index = Number(choice) - 1;
+			return index >= 0 && index < options.length ? index : undefined;
+		}
+		if (command === undefined) return;
+		if (/^[a-z]$/i.test(choice)) {
+			const index = choice.toUpperCase().charCodeAt(0) - 65;
+			if (index < options.length) return index;
+		}
+		const lower = choice.toLowerCase();
+		const index = options.findIndex((label) => label.toLowerCase() === lower);
+		return index === -1 ? undefined : index;
+	}
+}
+
+/** A YouTube poll as stored with the session, so it can still be closed after eviction. */
+export type StoredYouTubePoll = { panelId?: string; event: PollEvent };
+
+/**
+ * Follows polls run with YouTube's own poll feature, which appear as an
+ * action panel, are updated while people vote, and end when the panel closes.
+ */
+export class YouTubePolls {
+	private current: StoredYouTubePoll | null = null;
+
+	static restore(stored: StoredYouTubePoll | null): YouTubePolls {
+		const polls = new YouTubePolls();
+		polls.current = stored;
+		return polls;
+	}
+
+	/** The event an action makes for a YouTube poll, if it is about one. */
+	observe(action: LiveChatAction): PollEvent | undefined {
+		const panel = (action as Partial<NativePollAction>)
+			.showLiveChatActionPanelAction?.panelToShow?.liveChatActionPanelRenderer;
+		if (panel?.contents?.pollRenderer) {
+			const event = parsePollRenderer(panel.contents.pollRenderer, panel.id);
+			this.current = { panelId: panel.id, event };
+			return event;
+		}
+
+		const update = (action as Partial<NativePollAction>)
+			.updateLiveChatPollAction?.pollToUpdate?.pollRenderer;
+		if (update) {
+			const event = parsePollRenderer(update, this.current?.event.id);
+			this.current = { panelId: this.current?.panelId, event };
+			return event;
+		}
+
+		const closed = (action as Partial<NativePollAction>)
+			.closeLiveChatActionPanelAction?.targetPanelId;
+		if (closed && this.current && this.current.panelId === closed) {
+			const result: PollEvent = { ...this.current.event, type: 'poll_result' };
+			this.current = null;
+			return result;
+		}
+	}
+
+	toJSON(): StoredYouTubePoll | null {
+		return this.current;
+	}
+}
+
+type NativePollAction = {
+	showLiveChatActionPanelAction: {
+		panelToShow?: {
+			liveChatActionPanelRenderer?: {
+				id?: string;
+				contents?: { pollRenderer?: PollRenderer };
+			};
+		};
+	};
+	updateLiveChatPollAction: {
+		pollToUpdate?: { pollRenderer?: PollRenderer };
+	};
+	closeLiveChatActionPanelAction: { targetPanelId?: string };
+};
+
+function parsePollRenderer(renderer: PollRenderer, fallbackId = ''): PollEvent {
+	const header = renderer.header?.pollHeaderRenderer;
+	const metadata = header?.metadataText && parseYTString(header.metadataText);
+	// "1,234 votes", shown next to the poll's age
+	const voters = metadata && /(\d[\d,]*)\s+votes?/i.exec(metadata)?.[1];
+	return {
+		type: 'poll_update',
+		id: renderer.liveChatPollId ?? fallbackId,
+		source: 'youtube',
+		question: header?.pollQuestion && parseYTString(header.pollQuestion),
+		options: renderer.choices.map((choice) => ({
+			label: parseYTString(choice.text),
+			ratio: getChoiceRatio(choice),
+		})),
+		voters: voters ? Number(voters.replace(/,/g, '')) : undefined,
+	};
+}
+
+function getChoiceRatio(choice: PollRenderer['choices'][number]): number {
+	if (choice.voteRatio !== undefined) return choice.voteRatio;
+	const percentage =
+		choice.votePercentage && parseYTString(choice.votePercentage);
+	const value = Number(percentage?.replace('%', ''));
+	return Number.isFinite(value) ? value / 100 : 0;
+}
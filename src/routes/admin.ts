@@ -0,0 +1,49 @@
+import { err, ok } from 'neverthrow';
+import { Handler } from '@util/types';
+import { forwardToApiKeys, parseNewApiKey } from '../auth';
+import { getFollowedChannelId } from './channel';
+
+/** Every API key, with the connections and streams it holds right now. */
+export const listApiKeys: Handler = async (request, env) => {
+	return ok(await forwardToApiKeys(env, 'keys'));
+};
+
+/** Creates a key. Its allowlist may name channels by handle, which are stored as channel IDs. */
+export const createApiKey: Handler = async (request, env) => {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return err(['Expected a JSON object', 400]);
+	}
+	const input = parseNewApiKey(body);
+	if (input.isErr()) return err([input.error, 400]);
+
+	if (input.value.channels) {
+		const channels: string[] = [];
+		for (const channel of input.value.channels) {
+			const channelId = await getFollowedChannelId(channel, env);
+			if (channelId.isErr()) return channelId;
+			channels.push(channelId.value);
+		}
+		input.value.channels = channels;
+	}
+
+	return ok(
+		await forwardToApiKeys(env, 'keys', {
+			method: 'POST',
+			body: JSON.stringify(input.value),
+		})
+	);
+};
+
+/** Revokes a key, disconnecting its clients within a minute. */
+export const revokeApiKey: Handler<{ id: string }> = async (request, env) => {
+	return ok(
+		await forwardToApiKeys(
+			env,
+			`keys/${encodeURIComponent(request.params.id)}`,
+			{ method: 'DELETE' }
+		)
+	);
+};
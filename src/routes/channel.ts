@@ -1,46 +1,66 @@
-import { err, ok } from 'neverthrow';
-import { Handler } from '@util/types';
-import { notFound, traverseJSON } from '@util/util';
-import { getVideoData } from '@util/youtube';
-import { createChatObject } from '../YoutubeChat';
-// import Innertube from 'youtubei.js/dist';
+import { ok } from 'neverthrow';
+import { Env } from '..';
+import { Handler, Result } from '@util/types';
+import { notFound } from '@util/util';
+import {
+	LiveStream,
+	pickLiveStream,
+	resolveChannelLives,
+} from '@util/channels';
+import { openStream } from './stream';
 
 export const getChannel: Handler<{ id: string }> = async (request, env) => {
 	if (!request.params.id) return notFound;
 
-	// const innertube = await Innertube.create();
-	// innertube.get
-	// const chan = await innertube.getChannel(request.params.id);
-	// console.log(chan);
+	const live = await findChannelLive(request.params.id, request, env);
+	if (live.isErr()) return live;
 
-	const urls = getChannelLiveUrl(request.params.id);
-
-	const videoData = await getVideoData(urls);
-	if (videoData.isErr()) return videoData;
-
-	const { initialData } = videoData.value;
+	// Named by video, so a channel's handle, ID and custom URL all share one session
+	if (!new URL(request.url).searchParams.has('follow')) {
+		return openStream(live.value.videoId, request, env);
+	}
+	const follow = await getFollowedChannelId(request.params.id, env);
+	if (follow.isErr()) return follow;
+	return openStream(live.value.videoId, request, env, follow.value);
+};
 
-	const videoId = traverseJSON(initialData, (value, key) => {
-		if (key === 'currentVideoEndpoint') {
-			return value?.watchEndpoint?.videoId;
-		}
-	});
+/** Lists a channel's current live streams, in the order `?index=` counts them. */
+export const getChannelLives: Handler<{ id: string }> = async (
+	request,
+	env
+) => {
+	if (!request.params.id) return notFound;
 
-	if (!videoId) return err(['Stream not found', 404]);
+	const lives = await resolveChannelLives(request.params.id, env);
+	if (lives.isErr()) return lives;
 
-	const res = await createChatObject(videoId, videoData.value, request, env);
-	return ok(res);
+	return ok(
+		new Response(JSON.stringify(lives.value), {
+			headers: {
+				'Content-Type': 'application/json; charset=utf-8',
+				'Access-Control-Allow-Origin': '*',
+			},
+		})
+	);
 };
 
-function getChannelLiveUrl(channelId: string) {
-	if (channelId.startsWith('@')) {
-		return [`https://www.youtube.com/${channelId}/live`];
-	}
-	const isId = /^UC.{22}$/.test(channelId);
-	let urlParts: string[];
-	if (isId) urlParts = ['channel', 'c', 'user'];
-	else urlParts = ['c', 'user', 'channel'];
-	return urlParts.map(
-		(part) => `https://www.youtube.com/${part}/${channelId}/live`
-	);
+/** The channel's live stream picked by `?index=` or `?title=`, see pickLiveStream. */
+export async function findChannelLive(
+	channel: string,
+	request: Request,
+	env: Env
+): Promise<Result<LiveStream, [string, number]>> {
+	const lives = await resolveChannelLives(channel, env);
+	if (lives.isErr()) return lives;
+	return pickLiveStream(lives.value.streams, new URL(request.url).searchParams);
+}
+
+/** The ID a followed channel's session is named by, whichever way the channel was named. */
+export async function getFollowedChannelId(
+	channel: string,
+	env: Env
+): Promise<Result<string, [string, number]>> {
+	const lives = await resolveChannelLives(channel, env);
+	if (lives.isErr()) return lives;
+	return ok(lives.value.channelId ?? channel);
 }
@@ -0,0 +1,21 @@
+import { ok } from 'neverthrow';
+import { Handler } from '@util/types';
+import { notFound } from '@util/util';
+import { inspectChatObject } from '../YoutubeChat';
+
+/** Every stream that reported in the last 15 minutes, labelled by `stream`. */
+export const getMetrics: Handler = async (_request, env) => {
+	const registry = env.METRICS.get(env.METRICS.idFromName('global'));
+	return ok(await registry.fetch('http://youtube.chat/metrics'));
+};
+
+export const getStreamMetrics: Handler<{ id: string }> = async (
+	request,
+	env
+) => {
+	if (!request.params.id || !/^[A-Za-z0-9_-]{11}$/.test(request.params.id)) {
+		return notFound;
+	}
+	const target = { videoId: request.params.id };
+	return ok(await inspectChatObject(target, 'metrics', request, env));
+};
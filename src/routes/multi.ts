@@ -0,0 +1,142 @@
+import { err, ok } from 'neverthrow';
+import { Env } from '..';
+import { Handler, Result } from '@util/types';
+import { pickLiveStream, resolveChannelLives } from '@util/channels';
+import { getChannelId } from '@util/youtube';
+import { getProtocolHeaders } from '../auth';
+import { MultiSource, MultiStream, SourceStatusEvent } from '../multi';
+import { createChatObject } from '../YoutubeChat';
+import { scrapeStream } from './stream';
+
+// Each source costs several subrequests to scrape and connect
+const MAX_SOURCES = 6;
+
+type SourceRequest = { videoId: string } | { channel: string };
+
+type OpenedSource = { socket: WebSocket; source: MultiSource };
+
+/**
+ * Connects one WebSocket to several streams at once, from `?v=` video IDs and
+ * `?c=` channels, both comma-separated. Every other query param is passed on
+ * to each stream, as if it was connected to on its own.
+ */
+export const getMulti: Handler = async (request, env) => {
+	if (request.headers.get('Upgrade') !== 'websocket') {
+		return err(['Expected a WebSocket upgrade', 426]);
+	}
+	const params = new URL(request.url).searchParams;
+	// Sources are told apart by a field added to each event, which needs JSON
+	if (params.get('adapter') === 'irc') {
+		return err(['/multi does not support the irc adapter', 400]);
+	}
+	const sources = parseSources(params);
+	if (sources.isErr()) return sources;
+
+	const opened = await Promise.all(
+		sources.value.map(
+			async (source) =>
+				[source, await openSource(source, request, env)] as const
+		)
+	);
+	const results = opened.map(([, result]) => result);
+	const firstError = results.find((result) => result.isErr());
+	if (!results.some((result) => result.isOk()) && firstError) return firstError;
+
+	const { 0: client, 1: server } = new WebSocketPair();
+	server.accept();
+	const multi = new MultiStream(server);
+	const videoIds = new Set<string>();
+	for (const [wanted, result] of opened) {
+		if (result.isErr()) {
+			multi.fail(describeSource(wanted), result.error[0]);
+			continue;
+		}
+		const { socket, source } = result.value;
+		// A channel can lead to a video that was also asked for by ID
+		if (videoIds.has(source.videoId)) {
+			socket.accept();
+			socket.close(1000, 'Duplicate source');
+			continue;
+		}
+		videoIds.add(source.videoId);
+		multi.add(socket, source);
+	}
+
+	return ok(
+		new Response(null, {
+			status: 101,
+			webSocket: client,
+			headers: getProtocolHeaders(request),
+		})
+	);
+};
+
+function parseSources(
+	params: URLSearchParams
+): Result<SourceRequest[], [string, number]> {
+	const split = (key: string) =>
+		params
+			.getAll(key)
+			.flatMap((value) => value.split(','))
+			.map((value) => value.trim())
+			.filter(Boolean);
+
+	const videoIds = [...new Set(split('v'))];
+	const channels = [...new Set(split('c'))];
+	const invalid = videoIds.find((id) => !/^[A-Za-z0-9_-]{11}$/.test(id));
+	if (invalid) return err([`Invalid video ID "${invalid}"`, 400]);
+
+	const sources: SourceRequest[] = [
+		...videoIds.map((videoId) => ({ videoId })),
+		...channels.map((channel) => ({ channel })),
+	];
+	if (!sources.length) return err(['Expected ?v= or ?c=', 400]);
+	if (sources.length > MAX_SOURCES) {
+		return err([`At most ${MAX_SOURCES} streams can be combined`, 400]);
+	}
+	return ok(sources);
+}
+
+/** Finds a source's stream and connects to it like `/s/:videoId` would. */
+async function openSource(
+	request: SourceRequest,
+	clientRequest: Request,
+	env: Env
+): Promise<Result<OpenedSource, [string, number]>> {
+	let videoId: string;
+	let channelId: string | undefined;
+	if ('channel' in request) {
+		const lives = await resolveChannelLives(request.channel, env);
+		if (lives.isErr()) return lives;
+		// ?index= and ?title= would mean something different for every channel
+		const live = pickLiveStream(lives.value.streams, new URLSearchParams());
+		if (live.isErr()) return live;
+		videoId = live.value.videoId;
+		channelId = lives.value.channelId;
+	} else {
+		videoId = request.videoId;
+	}
+
+	const videoData = await scrapeStream(videoId, clientRequest);
+	if (videoData.isErr()) return videoData;
+	channelId ??= getChannelId(videoData.value.initialData);
+
+	const url = new URL(`/s/${videoId}`, clientRequest.url);
+	for (const [key, value] of new URL(clientRequest.url).searchParams) {
+		if (key !== 'v' && key !== 'c') url.searchParams.append(key, value);
+	}
+	const res = await createChatObject(
+		videoId,
+		videoData.value,
+		new Request(url.toString(), clientRequest),
+		env
+	);
+	if (!res.webSocket) {
+		return err([(await res.text()) || 'Failed to connect', res.status]);
+	}
+	return ok({ socket: res.webSocket, source: { videoId, channelId } });
+}
+
+function describeSource(request: SourceRequest): SourceStatusEvent['source'] {
+	return 'channel' in request ? { channel: request.channel } : request;
+}
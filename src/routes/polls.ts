@@ -0,0 +1,69 @@
+import { ok } from 'neverthrow';
+import { Env } from '..';
+import { Handler } from '@util/types';
+import { notFound } from '@util/util';
+import { forwardPoll } from '../YoutubeChat';
+import { getFollowedChannelId } from './channel';
+
+type PollTarget = { videoId: string } | { follow: string };
+
+function isVideoId(id: string | undefined): id is string {
+	return !!id && /^[A-Za-z0-9_-]{11}$/.test(id);
+}
+
+/** The chat poll running on a video, with its tallies so far. */
+export const getPoll: Handler<{ id: string }> = async (request, env) => {
+	if (!isVideoId(request.params.id)) return notFound;
+	return ok(await forwardPoll({ videoId: request.params.id }, env));
+};
+
+/** Opens a chat poll on a video that clients are connected to. */
+export const startPoll: Handler<{ id: string }> = async (request, env) => {
+	if (!isVideoId(request.params.id)) return notFound;
+	return ok(await start({ videoId: request.params.id }, request, env));
+};
+
+/** Ends a video's chat poll early, replying with its result. */
+export const endPoll: Handler<{ id: string }> = async (request, env) => {
+	if (!isVideoId(request.params.id)) return notFound;
+	return ok(
+		await forwardPoll({ videoId: request.params.id }, env, {
+			method: 'DELETE',
+		})
+	);
+};
+
+/** Polls on a followed channel's session, which outlive its streams. */
+export const getChannelPoll: Handler<{ id: string }> = async (request, env) => {
+	if (!request.params.id) return notFound;
+	const follow = await getFollowedChannelId(request.params.id, env);
+	if (follow.isErr()) return follow;
+	return ok(await forwardPoll({ follow: follow.value }, env));
+};
+
+export const startChannelPoll: Handler<{ id: string }> = async (
+	request,
+	env
+) => {
+	if (!request.params.id) return notFound;
+	const follow = await getFollowedChannelId(request.params.id, env);
+	if (follow.isErr()) return follow;
+	return ok(await start({ follow: follow.value }, request, env));
+};
+
+export const endChannelPoll: Handler<{ id: string }> = async (request, env) => {
+	if (!request.params.id) return notFound;
+	const follow = await getFollowedChannelId(request.params.id, env);
+	if (follow.isErr()) return follow;
+	return ok(
+		await forwardPoll({ follow: follow.value }, env, { method: 'DELETE' })
+	);
+};
+
+// The Durable Object checks the poll, so the body is passed on as it is
+async function start(target: PollTarget, request: Request, env: Env) {
+	return forwardPoll(target, env, {
+		method: 'POST',
+		body: await request.text(),
+	});
+}
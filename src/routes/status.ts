@@ -0,0 +1,34 @@
+import { ok } from 'neverthrow';
+import { Handler } from '@util/types';
+import { notFound } from '@util/util';
+import { inspectChatObject } from '../YoutubeChat';
+import { findChannelLive, getFollowedChannelId } from './channel';
+
+export const getStatus: Handler<{ id: string }> = async (request, env) => {
+	if (!request.params.id || !/^[A-Za-z0-9_-]{11}$/.test(request.params.id)) {
+		return notFound;
+	}
+	const target = { videoId: request.params.id };
+	return ok(await inspectChatObject(target, 'status', request, env));
+};
+
+/** A channel's current stream, or with `?follow` the session following it. */
+export const getChannelStatus: Handler<{ id: string }> = async (
+	request,
+	env
+) => {
+	if (!request.params.id) return notFound;
+
+	if (new URL(request.url).searchParams.has('follow')) {
+		const follow = await getFollowedChannelId(request.params.id, env);
+		if (follow.isErr()) return follow;
+		const target = { follow: follow.value };
+		return ok(await inspectChatObject(target, 'status', request, env));
+	}
+
+	const live = await findChannelLive(request.params.id, request, env);
+	if (live.isErr()) return live;
+
+	const target = { videoId: live.value.videoId };
+	return ok(await inspectChatObject(target, 'status', request, env));
+};
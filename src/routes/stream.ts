@@ -1,7 +1,14 @@
 import { ok } from 'neverthrow';
-import { Handler } from '@util/types';
+import { Env } from '..';
+import { Handler, HandlerResult, Result } from '@util/types';
 import { notFound } from '@util/util';
-import { getVideoData } from '@util/youtube';
+import {
+	getLiveChatContinuation,
+	getReplayData,
+	getVideoData,
+	getWatchData,
+	VideoData,
+} from '@util/youtube';
 import { createChatObject } from '../YoutubeChat';
 
 export const getStream: Handler<{ id: string }> = async (request, env) => {
@@ -9,24 +16,61 @@ export const getStream: Handler<{ id: string }> = async (request, env) => {
 	if (!request.params.id || !/^[A-Za-z0-9_-]{11}$/.test(request.params.id)) {
 		return notFound;
 	}
+	return openStream(request.params.id, request, env);
+};
 
-	const url = `https://www.youtube.com/watch?v=${request.params.id}`;
-
-	// Fetch the initial data using our robust scraper
-	const videoData = await getVideoData([url]);
-	
-	if (videoData.isErr()) {
-		const [message, status] = videoData.error;
-		return new Response(message, { status });
-	}
+/**
+ * Scrapes a video's chat and hands the connection to its Durable Object, or
+ * to the one following the `follow` channel.
+ */
+export async function openStream(
+	videoId: string,
+	request: Request,
+	env: Env,
+	follow?: string
+): Promise<HandlerResult> {
+	const videoData = await scrapeStream(videoId, request, follow);
+	if (videoData.isErr()) return videoData;
 
 	// Hand off to the Durable Object to start the WebSocket loop
 	const res = await createChatObject(
-		request.params.id,
+		videoId,
 		videoData.value,
 		request,
-		env
+		env,
+		follow
 	);
-	
+
 	return ok(res);
-};
+}
+
+/**
+ * Scrapes what a video's Durable Object needs to start polling: its live chat,
+ * its replay with `?replay` or once it has ended, or its waiting room.
+ */
+export async function scrapeStream(
+	videoId: string,
+	request: Request,
+	follow?: string
+): Promise<Result<VideoData, [string, number]>> {
+	const url = `https://www.youtube.com/watch?v=${videoId}`;
+	const wantsReplay = new URL(request.url).searchParams.has('replay');
+
+	// Fetch the initial data using our robust scraper
+	let videoData = wantsReplay
+		? await getReplayData(videoId)
+		: await getVideoData([url]);
+
+	// Finished streams have no live chat left, but may still have a replay.
+	// Streams that haven't opened chat yet get a waiting room instead.
+	if (
+		!wantsReplay &&
+		!follow &&
+		(videoData.isErr() || !getLiveChatContinuation(videoData.value.initialData))
+	) {
+		const watchData = await getWatchData(videoId);
+		if (watchData.isOk()) videoData = watchData;
+	}
+
+	return videoData;
+}
@@ -0,0 +1,101 @@
+import { err, ok } from 'neverthrow';
+import { Env } from '..';
+import { Handler, Result } from '@util/types';
+import { notFound } from '@util/util';
+import { parseWebhookInput } from '../webhooks';
+import { forwardWebhooks, startChatObject } from '../YoutubeChat';
+import { getFollowedChannelId } from './channel';
+import { scrapeStream } from './stream';
+
+type WebhookParams = { id: string; target?: string };
+
+function isVideoId(id: string | undefined): id is string {
+	return !!id && /^[A-Za-z0-9_-]{11}$/.test(id);
+}
+
+/** A video's webhook targets, with their delivery stats and dead letters. */
+export const getWebhooks: Handler<WebhookParams> = async (request, env) => {
+	if (!isVideoId(request.params.id)) return notFound;
+	return ok(await forwardWebhooks({ videoId: request.params.id }, env));
+};
+
+/** Adds a target to a video, starting its session if nobody is connected yet. */
+export const addWebhook: Handler<WebhookParams> = async (request, env) => {
+	const videoId = request.params.id;
+	if (!isVideoId(videoId)) return notFound;
+	const body = await readWebhookBody(request, env);
+	if (body.isErr()) return body;
+
+	const videoData = await scrapeStream(videoId, request);
+	if (videoData.isErr()) return videoData;
+	if (videoData.value.isReplay) {
+		return err(['Webhooks need a live or upcoming stream', 400]);
+	}
+	const started = await startChatObject(videoId, videoData.value, request, env);
+	if (started.isErr()) return started;
+
+	return ok(await forwardWebhooks({ videoId }, env, { body: body.value }));
+};
+
+export const removeWebhook: Handler<WebhookParams> = async (request, env) => {
+	const { id, target } = request.params;
+	if (!isVideoId(id) || !target) return notFound;
+	return ok(await forwardWebhooks({ videoId: id }, env, { targetId: target }));
+};
+
+/** The webhook targets following a channel from stream to stream. */
+export const getChannelWebhooks: Handler<WebhookParams> = async (
+	request,
+	env
+) => {
+	if (!request.params.id) return notFound;
+	const follow = await getFollowedChannelId(request.params.id, env);
+	if (follow.isErr()) return follow;
+	return ok(await forwardWebhooks({ follow: follow.value }, env));
+};
+
+/** Adds a target to a channel, which doesn't have to be live yet. */
+export const addChannelWebhook: Handler<WebhookParams> = async (
+	request,
+	env
+) => {
+	if (!request.params.id) return notFound;
+	const body = await readWebhookBody(request, env);
+	if (body.isErr()) return body;
+	const follow = await getFollowedChannelId(request.params.id, env);
+	if (follow.isErr()) return follow;
+	return ok(
+		await forwardWebhooks({ follow: follow.value }, env, { body: body.value })
+	);
+};
+
+export const removeChannelWebhook: Handler<WebhookParams> = async (
+	request,
+	env
+) => {
+	const { id, target } = request.params;
+	if (!id || !target) return notFound;
+	const follow = await getFollowedChannelId(id, env);
+	if (follow.isErr()) return follow;
+	return ok(
+		await forwardWebhooks({ follow: follow.value }, env, { targetId: target })
+	);
+};
+
+// Checked before anything is scraped, so a bad request costs no subrequests
+async function readWebhookBody(
+	request: Request,
+	env: Env
+): Promise<Result<string, [string, number]>> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return err(['Expected a JSON object', 400]);
+	}
+	const input = parseWebhookInput(body, {
+		allowPrivate: env.ALLOW_PRIVATE_WEBHOOKS === 'true',
+	});
+	if (input.isErr()) return err([input.error, 400]);
+	return ok(JSON.stringify(input.value));
+}
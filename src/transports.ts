@@ -0,0 +1,63 @@
+/** A single outbound payload, plus the labels transports like SSE attach to it. */
+export type Frame = {
+	data: string;
+	event?: string;
+	id?: number;
+};
+
+/** Anything the Durable Object can push chat frames to. */
+export interface ChatSubscriber {
+	send(frame: Frame): void;
+	close(): void;
+}
+
+export class WebSocketSubscriber implements ChatSubscriber {
+	constructor(public readonly socket: WebSocket) {}
+
+	send(frame: Frame) {
+		this.socket.send(frame.data);
+	}
+
+	close() {
+		this.socket.close();
+	}
+}
+
+export class SSESubscriber implements ChatSubscriber {
+	private encoder = new TextEncoder();
+	private closed = false;
+
+	constructor(
+		private writer: WritableStreamDefaultWriter,
+		private onClose: () => void
+	) {}
+
+	send(frame: Frame) {
+		let chunk = '';
+		if (frame.event) chunk += `event: ${frame.event}\n`;
+		if (frame.id !== undefined) chunk += `id: ${frame.id}\n`;
+		// Multi-line payloads (IRC) become one data field per line
+		for (const line of frame.data.replace(/\r?\n$/, '').split(/\r?\n/)) {
+			chunk += `data: ${line}\n`;
+		}
+		this.write(chunk + '\n');
+	}
+
+	/** Tells the browser how long to wait before reconnecting. */
+	retry(ms: number) {
+		this.write(`retry: ${ms}\n\n`);
+	}
+
+	close() {
+		if (this.closed) return;
+		this.closed = true;
+		this.writer.close().catch(() => undefined);
+		this.onClose();
+	}
+
+	private write(chunk: string) {
+		if (this.closed) return;
+		// Writes reject once the client has gone away
+		this.writer.write(this.encoder.encode(chunk)).catch(() => this.close());
+	}
+}
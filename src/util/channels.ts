@@ -0,0 +1,136 @@
+import { err, ok } from 'neverthrow';
+import { Env } from '..';
+import { Json, Result } from './types';
+import { traverseJSON } from './util';
+import { COMMON_HEADERS, parseInitialData, parseYTString } from './youtube';
+
+export type LiveStream = { videoId: string; title: string };
+
+export type ChannelLives = {
+	channelId?: string;
+	// In the order the channel lists them, newest first
+	streams: LiveStream[];
+};
+
+/**
+ * Finds a channel's current live streams, from an `@handle`, a `UC…` channel
+ * ID or a custom URL name. Results are cached for a minute by the channel's
+ * ChannelCache, so clients connecting to the same channel don't each scrape it.
+ */
+export async function resolveChannelLives(
+	channel: string,
+	env: Env
+): Promise<Result<ChannelLives, [string, number]>> {
+	const name = normalizeChannel(channel);
+	const cache = env.CHANNELS.get(env.CHANNELS.idFromName(name));
+	const res = await cache.fetch(
+		`http://youtube.chat/lives?channel=${encodeURIComponent(name)}`
+	);
+	if (!res.ok) return err([await res.text(), res.status]);
+	return ok(await res.json<ChannelLives>());
+}
+
+/**
+ * Picks one of a channel's live streams: `?index=` counts from 0 in the
+ * channel's order, `?title=` matches part of the title, case-insensitive.
+ * Without either, the newest stream.
+ */
+export function pickLiveStream(
+	streams: LiveStream[],
+	params: URLSearchParams
+): Result<LiveStream, [string, number]> {
+	const title = params.get('title')?.toLowerCase();
+	const index = params.get('index') ?? '0';
+	if (!title && !/^\d{1,4}$/.test(index)) {
+		return err(['index must be a whole number from 0', 400]);
+	}
+	const stream = title
+		? streams.find((stream) => stream.title.toLowerCase().includes(title))
+		: streams[Number(index)];
+	if (!stream) return err(['Stream not found', 404]);
+	return ok(stream);
+}
+
+/** Scrapes a channel's Live tab, uncached. */
+export async function fetchChannelLives(
+	channel: string
+): Promise<Result<ChannelLives, [string, number]>> {
+	let response: Response | undefined;
+	for (const url of getChannelUrls(channel)) {
+		try {
+			response = await fetch(url, { headers: COMMON_HEADERS });
+			if (response.ok) break;
+		} catch (e) {
+			console.error(`Failed to fetch ${url}`, e);
+		}
+	}
+	if (!response || response.status === 404) {
+		return err(['Channel not found', 404]);
+	}
+	if (!response.ok) {
+		return err([
+			'Failed to fetch channel: ' + response.statusText,
+			response.status,
+		]);
+	}
+
+	const initialData = parseInitialData(await response.text());
+	if (initialData.isErr()) return initialData;
+
+	return ok({
+		channelId: traverseJSON(initialData.value, (value, key) =>
+			key === 'channelMetadataRenderer' ? value?.externalId : undefined
+		),
+		streams: getLiveStreams(initialData.value),
+	});
+}
+
+/** Every video on the page marked as live now. */
+function getLiveStreams(initialData: Json): LiveStream[] {
+	const streams: LiveStream[] = [];
+	traverseJSON(initialData, (value, key) => {
+		if (key !== 'videoRenderer' || !value?.videoId) return;
+		if (!isLiveNow(value)) return;
+		if (streams.some(({ videoId }) => videoId === value.videoId)) return;
+		streams.push({ videoId: value.videoId, title: parseYTString(value.title) });
+	});
+	return streams;
+}
+
+type VideoRenderer = {
+	thumbnailOverlays?: {
+		thumbnailOverlayTimeStatusRenderer?: { style?: string };
+	}[];
+	badges?: { metadataBadgeRenderer?: { style?: string } }[];
+};
+
+function isLiveNow({ thumbnailOverlays, badges }: VideoRenderer): boolean {
+	return (
+		!!thumbnailOverlays?.some(
+			(overlay) => overlay.thumbnailOverlayTimeStatusRenderer?.style === 'LIVE'
+		) ||
+		!!badges?.some(
+			(badge) =>
+				badge.metadataBadgeRenderer?.style === 'BADGE_STYLE_TYPE_LIVE_NOW'
+		)
+	);
+}
+
+/** URLs of the channel's Live tab to try, most likely first. */
+function getChannelUrls(channel: string) {
+	if (channel.startsWith('@')) {
+		return [`https://www.youtube.com/${channel}/streams`];
+	}
+	const isId = /^UC.{22}$/.test(channel);
+	let urlParts: string[];
+	if (isId) urlParts = ['channel', 'c', 'user'];
+	else urlParts = ['c', 'user', 'channel'];
+	return urlParts.map(
+		(part) => `https://www.youtube.com/${part}/${channel}/streams`
+	);
+}
+
+// Handles and custom URLs ignore case, channel IDs don't
+function normalizeChannel(channel: string) {
+	return /^UC.{22}$/.test(channel) ? channel : channel.toLowerCase();
+}
@@ -0,0 +1,214 @@
+export type ParsedAmount = {
+	// ISO 4217 code, e.g. 'CAD'
+	currency: string;
+	// Integer amount in the currency's minor unit (cents for USD, yen for JPY)
+	value: number;
+};
+
+/** A paid item's price. Only `text` is set when it cannot be parsed. */
+export type Amount = {
+	text: string;
+	currency?: string;
+	value?: number;
+	usd?: number;
+};
+
+/** Units of each currency per 1 USD. Approximate, for goal tracking only. */
+export type USDRates = Record<string, number>;
+
+// Snapshot of mid-market rates, override with the USD_RATES variable
+export const DEFAULT_USD_RATES: USDRates = {
+	USD: 1,
+	ARS: 870,
+	AUD: 1.52,
+	BAM: 1.8,
+	BGN: 1.8,
+	BOB: 6.91,
+	BRL: 5.1,
+	BYN: 3.27,
+	CAD: 1.36,
+	CHF: 0.9,
+	CLP: 940,
+	CNY: 7.23,
+	COP: 3900,
+	CRC: 510,
+	CZK: 23.2,
+	DKK: 6.88,
+	DOP: 58.9,
+	EGP: 47.5,
+	EUR: 0.92,
+	GBP: 0.79,
+	GTQ: 7.77,
+	HKD: 7.82,
+	HNL: 24.7,
+	HRK: 6.95,
+	HUF: 362,
+	IDR: 16_000,
+	ILS: 3.7,
+	INR: 83.4,
+	ISK: 139,
+	JPY: 152,
+	KES: 131,
+	KRW: 1370,
+	MAD: 10,
+	MKD: 56.7,
+	MXN: 17,
+	MYR: 4.75,
+	NGN: 1300,
+	NIO: 36.8,
+	NOK: 10.8,
+	NZD: 1.67,
+	PEN: 3.72,
+	PHP: 57.5,
+	PKR: 278,
+	PLN: 3.95,
+	PYG: 7450,
+	QAR: 3.64,
+	RON: 4.58,
+	RSD: 108,
+	RUB: 92,
+	SAR: 3.75,
+	SEK: 10.7,
+	SGD: 1.35,
+	THB: 36.5,
+	TRY: 32.3,
+	TWD: 32.4,
+	UAH: 39.5,
+	UYU: 38.5,
+	VND: 25_400,
+	ZAR: 18.6,
+};
+
+// Longest first, so 'CA$' wins over '$'
+const SYMBOLS: [string, string][] = (
+	[
+		['US$', 'USD'],
+		['CA$', 'CAD'],
+		['AU$', 'AUD'],
+		['A$', 'AUD'],
+		['NZ$', 'NZD'],
+		['HK$', 'HKD'],
+		['NT$', 'TWD'],
+		['MX$', 'MXN'],
+		['S$', 'SGD'],
+		['R$', 'BRL'],
+		['JP¥', 'JPY'],
+		['CN¥', 'CNY'],
+		['E£', 'EGP'],
+		['$', 'USD'],
+		['£', 'GBP'],
+		['€', 'EUR'],
+		['¥', 'JPY'],
+		['₩', 'KRW'],
+		['₹', 'INR'],
+		['₱', 'PHP'],
+		['₪', 'ILS'],
+		['₫', 'VND'],
+		['₽', 'RUB'],
+		['₺', 'TRY'],
+		['₴', 'UAH'],
+		['₦', 'NGN'],
+		['₡', 'CRC'],
+		['฿', 'THB'],
+		['zł', 'PLN'],
+		['Kč', 'CZK'],
+		['Ft', 'HUF'],
+		['Rp', 'IDR'],
+		['RM', 'MYR'],
+		['лв', 'BGN'],
+		['lei', 'RON'],
+		['R', 'ZAR'],
+	] as [string, string][]
+).sort((a, b) => b[0].length - a[0].length);
+
+// ISO 4217 currencies without a minor unit (HUF and TWD are shown without one too)
+const ZERO_DECIMAL = new Set([
+	'CLP',
+	'HUF',
+	'ISK',
+	'JPY',
+	'KRW',
+	'PYG',
+	'TWD',
+	'UGX',
+	'VND',
+]);
+
+/**
+ * Parses YouTube's `purchaseAmountText`, which is formatted in the viewer's
+ * locale: "CA$5.00", "€5,00", "5,00 €", "PLN 20.00", "¥1,000", "₩10.000".
+ */
+export function parseAmount(text: string): ParsedAmount | undefined {
+	const match = /^(\D*?)\s*(\d[\d.,\s]*)(\D*)$/.exec(text.trim());
+	if (!match) return;
+	const [, prefix = '', number = '', suffix = ''] = match;
+	const currency = getCurrencyCode(prefix.trim() || suffix.trim());
+	if (!currency) return;
+
+	const amount = parseLocaleNumber(number.replace(/\s/g, ''));
+	if (amount === undefined) return;
+	return { currency, value: Math.round(amount * 10 ** minorDigits(currency)) };
+}
+
+export function getAmount(text: string, rates?: USDRates): Amount {
+	const parsed = parseAmount(text);
+	if (!parsed) return { text };
+	return { text, ...parsed, usd: toUSD(parsed, rates) };
+}
+
+/** Converts a parsed amount to US dollars, rounded to the cent. */
+export function toUSD(
+	{ currency, value }: ParsedAmount,
+	rates: USDRates = DEFAULT_USD_RATES
+): number | undefined {
+	const rate = rates[currency];
+	if (!rate) return;
+	const major = value / 10 ** minorDigits(currency);
+	return Math.round((major / rate) * 100) / 100;
+}
+
+/** The bundled rates, with any overrides from a JSON object of rates. */
+export function getUSDRates(overrides?: string): USDRates {
+	if (!overrides) return DEFAULT_USD_RATES;
+	try {
+		const parsed: unknown = JSON.parse(overrides);
+		if (typeof parsed !== 'object' || !parsed || Array.isArray(parsed)) {
+			return DEFAULT_USD_RATES;
+		}
+		const rates = { ...DEFAULT_USD_RATES };
+		for (const [code, rate] of Object.entries(parsed)) {
+			if (typeof rate === 'number' && rate > 0)
+				rates[code.toUpperCase()] = rate;
+		}
+		return rates;
+	} catch {
+		return DEFAULT_USD_RATES;
+	}
+}
+
+function getCurrencyCode(symbol: string): string | undefined {
+	if (/^[A-Z]{3}$/.test(symbol)) return symbol;
+	return SYMBOLS.find(([s]) => s === symbol)?.[1];
+}
+
+function minorDigits(currency: string): number {
+	return ZERO_DECIMAL.has(currency) ? 0 : 2;
+}
+
+function parseLocaleNumber(number: string): number | undefined {
+	const lastDot = number.lastIndexOf('.');
+	const lastComma = number.lastIndexOf(',');
+	const last = Math.max(lastDot, lastComma);
+	let normalized = number;
+	if (last !== -1) {
+		const decimals = number.length - last - 1;
+		// Both separators: the last one is the decimal point.
+		// One separator: three digits after it means it groups thousands.
+		const isDecimal = (lastDot !== -1 && lastComma !== -1) || decimals !== 3;
+		const integer = number.slice(0, isDecimal ? last : undefined);
+		normalized = integer.replace(/[.,]/g, '');
+		if (isDecimal) normalized += '.' + number.slice(last + 1);
+	}
+	const amount = Number(normalized);
+	return Number.isFinite(amount) ? amount : undefined;
+}
@@ -8,11 +8,12 @@ export type Continuation<T extends string = string> = {
 	};
 };
 
-export type LiveChatResponse = {
+/** Replay responses have the same shape, with ReplayChatItemAction batches as actions. */
+export type LiveChatResponse<Action = LiveChatAction> = {
 	continuationContents?: {
 		liveChatContinuation: {
 			continuations?: Continuation[];
-			actions?: LiveChatAction[];
+			actions?: Action[];
 		};
 	};
 };
@@ -74,7 +75,8 @@ export type ChatItemRenderer = {
 	};
 	liveChatTickerPaidMessageItemRenderer: {
 		id: string;
-		amount: YTString;
+		amount?: YTString;
+		amountText?: YTString;
 		amountTextColor: number;
 		startBackgroundColor: number;
 		endBackgroundColor: number;
@@ -87,7 +89,9 @@ export type ChatItemRenderer = {
 		id: string;
 		timestampUsec: string;
 		authorExternalChannelId: string;
+		headerPrimaryText?: YTString;
 		headerSubtext: YTString;
+		message?: YTString;
 		authorName: YTString;
 		authorPhoto: YTImage;
 		authorBadges: YTBadge[];
@@ -114,13 +118,53 @@ export type ChatItemRenderer = {
 	};
 	liveChatAutoModMessageRenderer: unknown;
 	liveChatLegacyPaidMessageRenderer: unknown;
-	liveChatPaidStickerRenderer: unknown;
+	liveChatPaidStickerRenderer: {
+		id: string;
+		timestampUsec: string;
+		authorName: YTString;
+		authorPhoto: YTImage;
+		authorExternalChannelId: string;
+		authorBadges?: YTBadge[];
+		sticker: YTImage;
+		purchaseAmountText: YTString;
+		moneyChipBackgroundColor: number;
+		moneyChipTextColor: number;
+		backgroundColor: number;
+		authorNameTextColor: number;
+		stickerDisplayWidth: number;
+		stickerDisplayHeight: number;
+	};
 	liveChatDonationAnnouncementRenderer: unknown;
-	liveChatModeChangeMessageRenderer: unknown;
-	liveChatModerationMessageRenderer: unknown;
+	liveChatModeChangeMessageRenderer: {
+		id: string;
+		timestampUsec: string;
+		icon?: {
+			iconType: 'SLOW_MODE' | 'MEMBERS_ONLY_MODE' | string;
+		};
+		text: YTString;
+		subtext?: YTString;
+	};
+	liveChatModerationMessageRenderer: {
+		id: string;
+		timestampUsec: string;
+		message: YTString;
+	};
 	liveChatPlaceholderItemRenderer: unknown;
 	liveChatPurchasedProductMessageRenderer: unknown;
-	liveChatSponsorshipsGiftPurchaseAnnouncementRenderer: unknown;
+	liveChatSponsorshipsGiftPurchaseAnnouncementRenderer: {
+		id: string;
+		timestampUsec: string;
+		authorExternalChannelId: string;
+		header: {
+			liveChatSponsorshipsHeaderRenderer: {
+				authorName: YTString;
+				authorPhoto: YTImage;
+				authorBadges?: YTBadge[];
+				primaryText: YTString;
+				image?: YTImage;
+			};
+		};
+	};
 	liveChatSponsorshipsGiftRedemptionAnnouncementRenderer: {
 		id: string;
 		timestampUsec: string;
@@ -129,8 +173,42 @@ export type ChatItemRenderer = {
 		authorPhoto: YTImage;
 		message: YTString;
 	};
-	liveChatViewerEngagementMessageRenderer: unknown;
-	liveChatTickerPaidStickerItemRenderer: unknown;
+	liveChatViewerEngagementMessageRenderer: {
+		id: string;
+		timestampUsec?: string;
+		icon?: {
+			iconType: 'YOUTUBE_ROUND' | 'POLL' | string;
+		};
+		message: YTString;
+	};
+	liveChatTickerPaidStickerItemRenderer: {
+		id: string;
+		authorExternalChannelId: string;
+		authorPhoto?: YTImage;
+		tickerThumbnails?: YTImage[];
+		startBackgroundColor: number;
+		endBackgroundColor: number;
+		durationSec: number;
+		fullDurationSec: number;
+	};
+};
+
+/** A poll run with YouTube's own poll feature, see src/polls.ts. */
+export type PollRenderer = {
+	liveChatPollId?: string;
+	header?: {
+		pollHeaderRenderer?: {
+			pollQuestion?: YTString;
+			// How many have voted and how long ago the poll started
+			metadataText?: YTString;
+		};
+	};
+	choices: {
+		text: YTString;
+		// From 0 to 1, once votes are shown
+		voteRatio?: number;
+		votePercentage?: YTString;
+	}[];
 };
 
 export type YTBadge = {
@@ -148,6 +226,23 @@ export type YTBadge = {
 	};
 };
 
+export type ChatDeletionAction = {
+	markChatItemAsDeletedAction: {
+		deletedStateMessage: YTString;
+		targetItemId: string;
+	};
+	markChatItemsByAuthorAsDeletedAction: {
+		deletedStateMessage: YTString;
+		externalChannelId: string;
+	};
+	removeChatItemAction: {
+		targetItemId: string;
+	};
+	removeChatItemByAuthorAction: {
+		externalChannelId: string;
+	};
+};
+
 export type LiveChatAction<Action extends string = string> = {
 	[action in Action]: {
 		item: ChatItemRenderer;
@@ -156,6 +251,14 @@ export type LiveChatAction<Action extends string = string> = {
 	clickTrackingParams?: string;
 };
 
+/** Chat replay batches actions by their offset into the video. */
+export type ReplayChatItemAction = {
+	replayChatItemAction: {
+		actions: LiveChatAction[];
+		videoOffsetTimeMsec: string;
+	};
+};
+
 export type Handler<T extends Record<string, string> = Record<string, string>> =
 	(request: Request & { params: T }, env: Env) => Promise<HandlerResult>;
 export type HandlerResult = Result<Response, [string, number]>;
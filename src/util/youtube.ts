@@ -1,5 +1,17 @@
 import { Err, err, Ok, ok } from 'neverthrow';
-import { Continuation, isTextRun, Json, YTString } from './types';
+import {
+	ChatDeletionAction,
+	Continuation,
+	EmojiRun,
+	isTextRun,
+	Json,
+	LiveChatAction,
+	Result,
+	YTBadge,
+	YTImage,
+	YTString,
+} from './types';
+import { traverseJSON } from './util';
 
 export const COMMON_HEADERS = {
 	'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -12,8 +24,18 @@ export type VideoData = {
 	apiKey: string;
 	clientVersion: string;
 	visitorData: string;
+	// Scraped from a finished stream's watch page, for chat replay
+	isReplay?: boolean;
+	// Scraped from the watch page of a stream whose chat isn't open yet
+	waiting?: WaitingStatus;
+	scheduledStartAt?: number;
 };
 
+/** Whether a stream's chat can be polled, and if not, why. */
+export type StreamStatus = 'upcoming' | 'live' | 'ended' | 'chat_disabled';
+
+export type WaitingStatus = Extract<StreamStatus, 'upcoming' | 'chat_disabled'>;
+
 export async function getVideoData(
 	inputs: string[]
 ): Promise<Ok<VideoData, unknown> | Err<unknown, [string, number]>> {
@@ -47,33 +69,134 @@ export async function getVideoData(
 	if (!response.ok)
 		return err(['Failed to fetch stream: ' + response.statusText, response.status]);
 
-	const text = await response.text();
+	return parseVideoPage(await response.text());
+}
+
+/**
+ * Fetches a finished stream's watch page, which carries the chat replay
+ * continuation the live chat popout no longer has.
+ */
+export async function getReplayData(
+	videoId: string
+): Promise<Ok<VideoData, unknown> | Err<unknown, [string, number]>> {
+	const videoData = await getWatchData(videoId);
+	if (videoData.isErr()) return videoData;
+	if (!videoData.value.isReplay) return err(['Chat replay not available', 404]);
+	return videoData;
+}
+
+/**
+ * Fetches a video's watch page, for when the live chat popout has no chat to
+ * poll: finished streams carry their replay there, and streams that haven't
+ * opened chat yet their schedule.
+ */
+export async function getWatchData(
+	videoId: string
+): Promise<Ok<VideoData, unknown> | Err<unknown, [string, number]>> {
+	let response: Response;
+	try {
+		response = await fetch(`https://www.youtube.com/watch?v=${videoId}`, {
+			headers: COMMON_HEADERS,
+		});
+	} catch (e) {
+		return err(['Failed to fetch video', 502]);
+	}
+	if (response.status === 404) return err(['Video not found', 404]);
+	if (!response.ok)
+		return err([
+			'Failed to fetch video: ' + response.statusText,
+			response.status,
+		]);
+
+	const videoData = parseVideoPage(await response.text());
+	if (videoData.isErr()) return videoData;
+	const { initialData } = videoData.value;
+	if (getReplayContinuation(initialData))
+		return ok({ ...videoData.value, isReplay: true });
+	if (getLiveChatContinuation(initialData)) return videoData;
+
+	const waiting = getWaitingStatus(initialData);
+	if (!waiting) return err(['Chat replay not available', 404]);
+	const scheduledStartAt = getScheduledStart(initialData);
+	return ok({ ...videoData.value, waiting, scheduledStartAt });
+}
+
+/** When a scheduled stream is set to start, in unix milliseconds. */
+export function getScheduledStart(initialData: Json): number | undefined {
+	const seconds = traverseJSON(initialData, (value, key) => {
+		if (key === 'scheduledStartTime') return value;
+		if (key === 'upcomingEventData') return value?.startTime;
+	});
+	const start = Number(seconds) * 1000;
+	return start > 0 ? start : undefined;
+}
+
+/** Why a watch page without chat has none: not started yet, or turned off. */
+function getWaitingStatus(initialData: Json): WaitingStatus | undefined {
+	if (getScheduledStart(initialData) !== undefined) return 'upcoming';
+	// Streams without chat show a message where the chat frame would be
+	const disabled = traverseJSON(initialData, (value, key) =>
+		key === 'conversationBarRenderer' ? value : undefined
+	);
+	if (disabled) return 'chat_disabled';
+}
+
+function parseVideoPage(
+	text: string
+): Ok<VideoData, unknown> | Err<unknown, [string, number]> {
+	const apiKey = /"INNERTUBE_API_KEY"\s*:\s*"([^"]+)"/.exec(text)?.[1];
+	if (!apiKey) return err(['Scraper: Missing API Key', 500]);
 
-	const apiKeyMatch = /"INNERTUBE_API_KEY"\s*:\s*"([^"]+)"/.exec(text);
-	if (!apiKeyMatch) return err(['Scraper: Missing API Key', 500]);
-	const apiKey = apiKeyMatch[1];
+	const clientVersion = /"clientVersion"\s*:\s*"([^"]+)"/.exec(text)?.[1];
+	if (!clientVersion) return err(['Scraper: Missing Client Version', 500]);
 
-	const versionMatch = /"clientVersion"\s*:\s*"([^"]+)"/.exec(text);
-	if (!versionMatch) return err(['Scraper: Missing Client Version', 500]);
-	const clientVersion = versionMatch[1];
+	const visitorData = /"VISITOR_DATA"\s*:\s*"([^"]+)"/.exec(text)?.[1] ?? '';
 
-	const visitorMatch = /"VISITOR_DATA"\s*:\s*"([^"]+)"/.exec(text);
-	const visitorData = visitorMatch ? visitorMatch[1] : "";
+	const initialData = parseInitialData(text);
+	if (initialData.isErr()) return initialData;
+
+	return ok({
+		initialData: initialData.value,
+		apiKey,
+		clientVersion,
+		visitorData,
+	});
+}
 
-	let initialData = getMatch(text, /window\["ytInitialData"\]\s*=\s*({[\s\S]+?});/);
+/** Reads `ytInitialData` from any YouTube page. */
+export function parseInitialData(text: string): Result<Json, [string, number]> {
+	let initialData = getMatch(
+		text,
+		/var\s+ytInitialData\s*=\s*({[\s\S]+?});\s*<\/script>/
+	);
 	if (initialData.isErr()) {
-		initialData = getMatch(text, /(?:var\s+ytInitialData|window\[['"]ytInitialData['"]\])\s*=\s*({[\s\S]+?});/);
+		initialData = getMatch(
+			text,
+			/window\["ytInitialData"\]\s*=\s*({[\s\S]+?});/
+		);
+	}
+	if (initialData.isErr()) {
+		initialData = getMatch(
+			text,
+			/(?:var\s+ytInitialData|window\[['"]ytInitialData['"]\])\s*=\s*({[\s\S]+?});/
+		);
 	}
-	
-	if (initialData.isErr()) return err(['Failed to parse ytInitialData from Popout', 500]);
 
-	return ok({ initialData: initialData.value, apiKey, clientVersion, visitorData });
+	if (initialData.isErr()) return err(['Failed to parse ytInitialData', 500]);
+	return initialData;
 }
 
-function getMatch<T extends Json = Json>(html: string, pattern: RegExp): Result<T, [string, number]> {
+function getMatch<T extends Json = Json>(
+	html: string,
+	pattern: RegExp
+): Result<T, [string, number]> {
 	const match = pattern.exec(html);
 	if (!match?.[1]) return err(['Pattern not found', 404]);
-	try { return ok(JSON.parse(match[1])); } catch { return err(['JSON Parse Error', 500]); }
+	try {
+		return ok(JSON.parse(match[1]));
+	} catch {
+		return err(['JSON Parse Error', 500]);
+	}
 }
 
 export function getContinuationToken(continuation: Continuation) {
@@ -81,9 +204,284 @@ export function getContinuationToken(continuation: Continuation) {
 	return continuation[key]?.continuation;
 }
 
+export function getLiveChatContinuation(initialData: Json): string | undefined {
+	const continuation = traverseJSON(initialData, (v) =>
+		v?.title === 'Live chat' ? v.continuation : undefined
+	);
+	if (continuation) return getContinuationToken(continuation);
+}
+
+export function getReplayContinuation(initialData: Json): string | undefined {
+	// "Live chat replay" has every message, "Top chat replay" is filtered
+	const continuation = traverseJSON(initialData, (v) =>
+		v?.title === 'Live chat replay' ? v.continuation : undefined
+	);
+	if (continuation) return getContinuationToken(continuation);
+
+	const renderer = traverseJSON(initialData, (v, k) =>
+		k === 'liveChatRenderer' && v?.isReplay ? v : undefined
+	);
+	const [first] = renderer?.continuations ?? [];
+	if (first) return getContinuationToken(first);
+}
+
+export function getChannelId(initialData: Json): string | undefined {
+	return traverseJSON(initialData, (value, key) => {
+		if (key !== 'channelId' && key !== 'externalChannelId') return;
+		if (typeof value === 'string' && /^UC[\w-]{22}$/.test(value)) return value;
+	});
+}
+
+function getRenderer(action: LiveChatAction) {
+	const actionType = Object.keys(action)[0] as keyof LiveChatAction;
+	const item = action[actionType]?.item;
+	if (!item) return;
+	return Object.values(item)[0] as
+		| {
+				id?: string;
+				timestampUsec?: string;
+				authorExternalChannelId?: string;
+				authorName?: YTString;
+				authorBadges?: YTBadge[];
+				message?: YTString;
+				purchaseAmountText?: YTString;
+		  }
+		| undefined;
+}
+
+/** The YouTube timestamp of a chat item in milliseconds, if it has one. */
+export function getActionTimestamp(action: LiveChatAction): number | undefined {
+	const renderer = getRenderer(action);
+	if (renderer?.timestampUsec) {
+		return Math.round(Number(renderer.timestampUsec) / 1000);
+	}
+}
+
+/**
+ * The renderer of a chat item (`liveChatTextMessageRenderer`, ...), or for
+ * anything else the action itself (`markChatItemAsDeletedAction`, ...).
+ */
+export function getActionType(action: LiveChatAction): string {
+	const actionType = Object.keys(action)[0] ?? '';
+	const item = action[actionType]?.item;
+	return (item && Object.keys(item)[0]) || actionType;
+}
+
+/** The ID of a chat item, which deletions and tickers refer to. */
+export function getActionId(action: LiveChatAction): string | undefined {
+	return getRenderer(action)?.id;
+}
+
+/**
+ * Identifies an action for deduplication. Chat items are keyed by their action,
+ * renderer and ID, since tickers reuse the ID of the item they pin. Anything
+ * else (banners, polls) is keyed by its type and content. Deletions have no
+ * key: banning the same author twice looks the same, and repeats are harmless.
+ */
+export function getActionKey(action: LiveChatAction): string | undefined {
+	if (getDeletion(action)) return;
+	const actionType = Object.keys(action)[0] ?? '';
+	const id = getActionId(action);
+	if (id) return `${actionType}:${getActionType(action)}:${id}`;
+	return `${actionType}:${hashString(JSON.stringify(action[actionType]))}`;
+}
+
+// cyrb53, a fast 53-bit hash: short enough to store and index per action
+function hashString(text: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/** The channel ID of whoever sent a chat item, if it has one. */
+export function getActionAuthorId(action: LiveChatAction): string | undefined {
+	return getRenderer(action)?.authorExternalChannelId;
+}
+
+export type AuthorRole = 'owner' | 'moderator' | 'member' | 'verified';
+
+export const AUTHOR_ROLES: readonly AuthorRole[] = [
+	'owner',
+	'moderator',
+	'member',
+	'verified',
+];
+
+export type ChatAuthor = { id: string; name: string; roles: AuthorRole[] };
+
+/** Who sent a chat item, with the roles shown by their badges. */
+export function getActionAuthor(
+	action: LiveChatAction
+): ChatAuthor | undefined {
+	const renderer = getRenderer(action);
+	if (!renderer?.authorExternalChannelId) return;
+	const roles = new Set<AuthorRole>();
+	const badges = renderer.authorBadges ?? [];
+	for (const { liveChatAuthorBadgeRenderer: badge } of badges) {
+		const icon = badge.icon?.iconType.toUpperCase();
+		if (icon === 'OWNER') roles.add('owner');
+		else if (icon === 'MODERATOR') roles.add('moderator');
+		else if (icon === 'VERIFIED') roles.add('verified');
+		// Membership badges are the channel's own images
+		else if (badge.customThumbnail) roles.add('member');
+	}
+	return {
+		id: renderer.authorExternalChannelId,
+		name: parseYTString(renderer.authorName).replace(/^@/, ''),
+		roles: [...roles],
+	};
+}
+
+/** The text a viewer wrote, for items that carry one. */
+export function getActionMessage(action: LiveChatAction): string | undefined {
+	const message = getRenderer(action)?.message;
+	if (message) return parseYTString(message);
+}
+
+/** The price of a Super Chat or Super Sticker as shown in chat. */
+export function getActionAmountText(
+	action: LiveChatAction
+): string | undefined {
+	const amount = getRenderer(action)?.purchaseAmountText;
+	if (amount) return parseYTString(amount);
+}
+
+export type ChatDeletion =
+	| { type: 'delete'; targetId: string }
+	| { type: 'author_purge'; authorId: string };
+
+/**
+ * Moderators deleting one message, or every message by an author (bans and
+ * timeouts look the same to viewers).
+ */
+export function getDeletion(action: LiveChatAction): ChatDeletion | undefined {
+	const deletion = action as Partial<ChatDeletionAction>;
+	const targetId =
+		deletion.markChatItemAsDeletedAction?.targetItemId ??
+		deletion.removeChatItemAction?.targetItemId;
+	if (targetId) return { type: 'delete', targetId };
+
+	const authorId =
+		deletion.markChatItemsByAuthorAsDeletedAction?.externalChannelId ??
+		deletion.removeChatItemByAuthorAction?.externalChannelId;
+	if (authorId) return { type: 'author_purge', authorId };
+}
+
+export function getImageUrl(image?: YTImage): string {
+	// Thumbnails are listed smallest first
+	return image?.thumbnails[image.thumbnails.length - 1]?.url ?? '';
+}
+
+/** YouTube sends colors as ARGB integers. Returns `#rrggbb`. */
+export function toHexColor(argb: number): string {
+	return '#' + (argb & 0xffffff).toString(16).padStart(6, '0');
+}
+
+// Header background of each Super Chat tier, cheapest (blue) to priciest (red)
+const SUPERCHAT_TIER_COLORS = [
+	0x1565c0, 0x00b8d4, 0x00bfa5, 0xffb300, 0xe65100, 0xc2185b, 0xd00000,
+];
+// Lowest USD amount of each tier
+const SUPERCHAT_TIER_USD = [1, 2, 5, 10, 20, 50, 100];
+
+/**
+ * The Super Chat tier from 1 (blue) to 7 (red). Read from the header color,
+ * falling back to the USD value when YouTube changes its palette.
+ */
+export function getSuperchatTier(
+	headerBackgroundColor: number,
+	usd?: number
+): number | undefined {
+	const index = SUPERCHAT_TIER_COLORS.indexOf(headerBackgroundColor & 0xffffff);
+	if (index !== -1) return index + 1;
+	if (usd === undefined) return;
+	return Math.max(1, SUPERCHAT_TIER_USD.filter((min) => usd >= min).length);
+}
+
+/**
+ * How emoji are written into plain text:
+ * - `strip` keeps short shortcuts and labels and deletes the rest (Resonite safe)
+ * - `shortcut` always uses the first shortcut, e.g. `:yt:`
+ * - `label` always uses the accessibility label, e.g. `:face-blue-smiling:`
+ * - `image` keeps standard emoji and replaces custom ones with their image URL
+ */
+export type EmojiMode = 'strip' | 'shortcut' | 'label' | 'image';
+
+export const EMOJI_MODES: readonly EmojiMode[] = [
+	'strip',
+	'shortcut',
+	'label',
+	'image',
+];
+
+function formatEmoji(
+	{ emoji }: EmojiRun,
+	mode: Exclude<EmojiMode, 'strip'>
+): string {
+	const shortcut = emoji.shortcuts?.[0] ?? emoji.emojiId;
+	switch (mode) {
+		case 'shortcut':
+			return shortcut;
+		case 'label': {
+			const label = emoji.image?.accessibility?.accessibilityData?.label;
+			return label ? `:${label}:` : shortcut;
+		}
+		case 'image':
+			return emoji.isCustomEmoji ? getImageUrl(emoji.image) : emoji.emojiId;
+	}
+}
+
+export type MessageRun =
+	| { type: 'text'; text: string; bold?: boolean; italic?: boolean }
+	| {
+			type: 'emoji';
+			id: string;
+			shortcut: string;
+			label: string;
+			image: string;
+			isCustom: boolean;
+	  };
+
+/** Keeps a YouTube string's formatting and emoji instead of flattening it. */
+export function parseYTRuns(string?: YTString): MessageRun[] {
+	if (!string) return [];
+	if (string.simpleText) return [{ type: 'text', text: string.simpleText }];
+	return (string.runs ?? []).map((run): MessageRun => {
+		if (isTextRun(run)) {
+			return {
+				type: 'text',
+				text: run.text,
+				...(run.bold && { bold: true }),
+				...(run.italics && { italic: true }),
+			};
+		}
+		const { emoji } = run;
+		return {
+			type: 'emoji',
+			id: emoji.emojiId,
+			shortcut: emoji.shortcuts?.[0] ?? '',
+			label: emoji.image?.accessibility?.accessibilityData?.label ?? '',
+			image: getImageUrl(emoji.image),
+			isCustom: emoji.isCustomEmoji ?? false,
+		};
+	});
+}
+
 // --- THE CLEANER ---
 // This function decides what text gets sent to Resonite.
-export function parseYTString(string?: YTString): string {
+export function parseYTString(
+	string?: YTString,
+	emoji: EmojiMode = 'strip'
+): string {
 	if (!string) return '';
 	if (string.simpleText) return string.simpleText;
 	
@@ -95,14 +493,17 @@ export function parseYTString(string?: YTString): string {
 					return run.text;
 				} 
 				
-				// 2. Emoji? Be RUTHLESS.
+				// 2. Emoji? Asked for a specific style? Use it.
+				if (run.emoji && emoji !== 'strip') return formatEmoji(run, emoji);
+
+				// 3. Otherwise be RUTHLESS.
 				if (run.emoji) {
 					// Is it a standard emoji (like 😀) or a simple shortcut (like :) )?
 					// We check if the shortcut is short (less than 6 chars).
 					// If it's long, it's likely an internal ID -> DELETE IT.
 					if (run.emoji.shortcuts && run.emoji.shortcuts.length > 0) {
 						const shortcut = run.emoji.shortcuts[0];
-						if (shortcut.length < 6) return shortcut; // Keep ":)"
+						if (shortcut && shortcut.length < 6) return shortcut; // Keep ":)"
 					}
 
 					// Is it a labeled emoji (like "Smile")?
@@ -0,0 +1,500 @@
+import { err, ok } from 'neverthrow';
+import { Result } from '@util/types';
+import { AdapterName, isAdapterName } from './adapters/registry';
+
+/** Where a stream's events are POSTed, for consumers that can't hold a socket. */
+export type WebhookTarget = {
+	id: string;
+	url: string;
+	// Event `type`s to deliver, or every type when missing
+	events?: string[];
+	adapter: AdapterName;
+	createdAt: number;
+};
+
+export type WebhookStats = {
+	// Batches the target accepted
+	delivered: number;
+	// Attempts that failed, including ones retried later
+	failed: number;
+	// Batches waiting for their first attempt or a retry
+	pending: number;
+	// Batches given up on, see DeadLetter
+	deadLettered: number;
+	lastStatus: number | null;
+	lastError: string | null;
+	lastDeliveredAt: number | null;
+};
+
+/** A batch that ran out of attempts, kept so it can be looked into. */
+export type DeadLetter = {
+	id: string;
+	attempts: number;
+	error: string;
+	failedAt: number;
+};
+
+export type WebhookInput = Omit<WebhookTarget, 'id' | 'createdAt'> & {
+	secret?: string;
+};
+
+/** What one call to Webhooks.deliver did, for metrics. */
+export type DeliveryResults = {
+	delivered: number;
+	failed: number;
+	deadLettered: number;
+};
+
+type TargetRow = {
+	id: string;
+	url: string;
+	secret: string;
+	events: string | null;
+	adapter: string;
+	created_at: number;
+	delivered: number;
+	failed: number;
+	dead_lettered: number;
+	last_status: number | null;
+	last_error: string | null;
+	last_delivered_at: number | null;
+};
+
+type QueueRow = {
+	id: string;
+	target_id: string;
+	body: string;
+	attempts: number;
+};
+
+const MIN_SECRET_LENGTH = 16;
+const TIMEOUT_MS = 5_000;
+
+/**
+ * Reads a target from the body of a `POST /webhooks/...` request. Targets must
+ * be public https URLs unless `allowPrivate` is set, for local development.
+ */
+export function parseWebhookInput(
+	value: unknown,
+	{ allowPrivate = false }: { allowPrivate?: boolean } = {}
+): Result<WebhookInput, string> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return err('Expected a JSON object');
+	}
+	const fields = value as Record<string, unknown>;
+
+	let url: URL;
+	try {
+		url = new URL(String(fields.url));
+	} catch {
+		return err('url must be an absolute URL');
+	}
+	if (allowPrivate) {
+		if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+			return err('url must be http or https');
+		}
+	} else if (url.protocol !== 'https:') {
+		return err('url must be https');
+	} else if (isPrivateHost(url.hostname)) {
+		return err('url must not point to a private or loopback address');
+	}
+
+	const events = fields.events;
+	if (
+		events !== undefined &&
+		(!Array.isArray(events) || events.some((e) => typeof e !== 'string'))
+	) {
+		return err('events must be a list of event types');
+	}
+
+	const adapter = fields.adapter ?? 'json';
+	if (typeof adapter !== 'string' || !isAdapterName(adapter)) {
+		return err(`Unknown adapter "${adapter}"`);
+	}
+	// Events are sent as a JSON array, which IRC lines can't be part of
+	if (adapter === 'irc') return err('Webhooks do not support the irc adapter');
+
+	const secret = fields.secret;
+	if (
+		secret !== undefined &&
+		(typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)
+	) {
+		return err(`secret must be at least ${MIN_SECRET_LENGTH} characters`);
+	}
+
+	return ok({ url: url.toString(), events, adapter, secret });
+}
+
+/**
+ * A stream's webhook targets and the batches waiting to reach them, stored in
+ * the Durable Object's SQLite database so retries survive restarts. Failed
+ * batches are retried with exponential backoff, then kept as dead letters.
+ */
+export class Webhooks {
+	public static readonly MAX_ATTEMPTS = 6;
+	private static readonly RETRY_BASE_MS = 5_000;
+	private static readonly RETRY_MAX_MS = 10 * 60_000;
+	// A target that is down for long drops its oldest batches to dead letters
+	private static readonly MAX_PENDING = 100;
+	private static readonly MAX_DEAD_LETTERS = 50;
+
+	constructor(private sql: SqlStorage) {
+		sql.exec(`CREATE TABLE IF NOT EXISTS webhook_targets (
+			id TEXT PRIMARY KEY,
+			url TEXT NOT NULL,
+			secret TEXT NOT NULL,
+			events TEXT,
+			adapter TEXT NOT NULL,
+			created_at INTEGER NOT NULL,
+			delivered INTEGER NOT NULL DEFAULT 0,
+			failed INTEGER NOT NULL DEFAULT 0,
+			dead_lettered INTEGER NOT NULL DEFAULT 0,
+			last_status INTEGER,
+			last_error TEXT,
+			last_delivered_at INTEGER
+		)`);
+		sql.exec(`CREATE TABLE IF NOT EXISTS webhook_queue (
+			id TEXT PRIMARY KEY,
+			target_id TEXT NOT NULL,
+			body TEXT NOT NULL,
+			attempts INTEGER NOT NULL,
+			next_attempt_at INTEGER NOT NULL,
+			created_at INTEGER NOT NULL
+		)`);
+		sql.exec(`CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+			id TEXT PRIMARY KEY,
+			target_id TEXT NOT NULL,
+			body TEXT NOT NULL,
+			attempts INTEGER NOT NULL,
+			error TEXT NOT NULL,
+			failed_at INTEGER NOT NULL
+		)`);
+	}
+
+	/** Whether any batch is waiting for an attempt, due or not. */
+	hasPending(): boolean {
+		return (
+			this.sql.exec('SELECT 1 FROM webhook_queue LIMIT 1').toArray().length > 0
+		);
+	}
+
+	targets(): WebhookTarget[] {
+		return this.rows().map(toTarget);
+	}
+
+	/** Every target with its delivery stats and most recent dead letters. */
+	list(): (WebhookTarget & {
+		stats: WebhookStats;
+		deadLetters: DeadLetter[];
+	})[] {
+		return this.rows().map((row) => ({
+			...toTarget(row),
+			stats: {
+				delivered: row.delivered,
+				failed: row.failed,
+				pending: this.pending(row.id),
+				deadLettered: row.dead_lettered,
+				lastStatus: row.last_status,
+				lastError: row.last_error,
+				lastDeliveredAt: row.last_delivered_at,
+			},
+			deadLetters: this.deadLetters(row.id),
+		}));
+	}
+
+	/** Adds a target, returning it with its signing secret, which is not shown again. */
+	add(input: WebhookInput): WebhookTarget & { secret: string } {
+		const target = {
+			id: crypto.randomUUID(),
+			url: input.url,
+			events: input.events,
+			adapter: input.adapter,
+			createdAt: Date.now(),
+			secret: input.secret ?? randomSecret(),
+		};
+		this.sql.exec(
+			'INSERT INTO webhook_targets (id, url, secret, events, adapter, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+			target.id,
+			target.url,
+			target.secret,
+			target.events ? JSON.stringify(target.events) : null,
+			target.adapter,
+			target.createdAt
+		);
+		return target;
+	}
+
+	/** Removes a target along with its queued batches and dead letters. */
+	remove(id: string): boolean {
+		const { rowsWritten } = this.sql.exec(
+			'DELETE FROM webhook_targets WHERE id = ?',
+			id
+		);
+		this.sql.exec('DELETE FROM webhook_queue WHERE target_id = ?', id);
+		this.sql.exec('DELETE FROM webhook_dead_letters WHERE target_id = ?', id);
+		return rowsWritten > 0;
+	}
+
+	/** Queues a batch for its first attempt on the next delivery. */
+	enqueue(targetId: string, body: string) {
+		const now = Date.now();
+		this.sql.exec(
+			'INSERT INTO webhook_queue (id, target_id, body, attempts, next_attempt_at, created_at) VALUES (?, ?, ?, 0, ?, ?)',
+			crypto.randomUUID(),
+			targetId,
+			body,
+			now,
+			now
+		);
+		const overflow = this.pending(targetId) - Webhooks.MAX_PENDING;
+		if (overflow <= 0) return;
+		const oldest = this.sql
+			.exec<QueueRow>(
+				'SELECT id, target_id, body, attempts FROM webhook_queue WHERE target_id = ? ORDER BY created_at LIMIT ?',
+				targetId,
+				overflow
+			)
+			.toArray();
+		for (const row of oldest) this.deadLetter(row, 'Queue full');
+	}
+
+	/** Attempts up to `limit` batches that are due, oldest first. */
+	async deliver(limit: number): Promise<DeliveryResults> {
+		const results: DeliveryResults = {
+			delivered: 0,
+			failed: 0,
+			deadLettered: 0,
+		};
+		const due = this.sql
+			.exec<QueueRow>(
+				'SELECT id, target_id, body, attempts FROM webhook_queue WHERE next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?',
+				Date.now(),
+				limit
+			)
+			.toArray();
+		for (const row of due) {
+			const [target] = this.rows(row.target_id);
+			if (!target) continue;
+
+			const attempt = await post(target, row);
+			if (attempt.ok) {
+				this.sql.exec('DELETE FROM webhook_queue WHERE id = ?', row.id);
+				this.sql.exec(
+					'UPDATE webhook_targets SET delivered = delivered + 1, last_status = ?, last_error = NULL, last_delivered_at = ? WHERE id = ?',
+					attempt.status,
+					Date.now(),
+					target.id
+				);
+				results.delivered++;
+				continue;
+			}
+
+			results.failed++;
+			this.sql.exec(
+				'UPDATE webhook_targets SET failed = failed + 1, last_status = ?, last_error = ? WHERE id = ?',
+				attempt.status ?? null,
+				attempt.error,
+				target.id
+			);
+			const attempts = row.attempts + 1;
+			if (!attempt.retry || attempts >= Webhooks.MAX_ATTEMPTS) {
+				this.deadLetter({ ...row, attempts }, attempt.error);
+				results.deadLettered++;
+				continue;
+			}
+			const backoff = Math.min(
+				Webhooks.RETRY_BASE_MS * 2 ** (attempts - 1),
+				Webhooks.RETRY_MAX_MS
+			);
+			this.sql.exec(
+				'UPDATE webhook_queue SET attempts = ?, next_attempt_at = ? WHERE id = ?',
+				attempts,
+				Date.now() + backoff,
+				row.id
+			);
+		}
+		return results;
+	}
+
+	private rows(id?: string): TargetRow[] {
+		const query = 'SELECT * FROM webhook_targets';
+		return id === undefined
+			? this.sql.exec<TargetRow>(`${query} ORDER BY created_at`).toArray()
+			: this.sql.exec<TargetRow>(`${query} WHERE id = ?`, id).toArray();
+	}
+
+	private pending(targetId: string): number {
+		const [row] = this.sql
+			.exec<{ count: number }>(
+				'SELECT COUNT(*) AS count FROM webhook_queue WHERE target_id = ?',
+				targetId
+			)
+			.toArray();
+		return row?.count ?? 0;
+	}
+
+	private deadLetters(targetId: string): DeadLetter[] {
+		return this.sql
+			.exec<{ id: string; attempts: number; error: string; failed_at: number }>(
+				'SELECT id, attempts, error, failed_at FROM webhook_dead_letters WHERE target_id = ? ORDER BY failed_at DESC',
+				targetId
+			)
+			.toArray()
+			.map(({ id, attempts, error, failed_at }) => ({
+				id,
+				attempts,
+				error,
+				failedAt: failed_at,
+			}));
+	}
+
+	private deadLetter(row: QueueRow, error: string) {
+		this.sql.exec('DELETE FROM webhook_queue WHERE id = ?', row.id);
+		this.sql.exec(
+			'INSERT INTO webhook_dead_letters (id, target_id, body, attempts, error, failed_at) VALUES (?, ?, ?, ?, ?, ?)',
+			row.id,
+			row.target_id,
+			row.body,
+			row.attempts,
+			error,
+			Date.now()
+		);
+		this.sql.exec(
+			'UPDATE webhook_targets SET dead_lettered = dead_lettered + 1 WHERE id = ?',
+			row.target_id
+		);
+		this.sql.exec(
+			`DELETE FROM webhook_dead_letters WHERE target_id = ? AND id NOT IN (
+				SELECT id FROM webhook_dead_letters WHERE target_id = ? ORDER BY failed_at DESC LIMIT ?
+			)`,
+			row.target_id,
+			row.target_id,
+			Webhooks.MAX_DEAD_LETTERS
+		);
+	}
+}
+
+type Attempt =
+	| { ok: true; status: number }
+	| { ok: false; status?: number; error: string; retry: boolean };
+
+/**
+ * POSTs one batch. The body is signed with the target's secret as
+ * `X-Webhook-Signature: sha256=<hex HMAC of "<timestamp>.<body>">`, and the
+ * delivery ID stays the same across retries so receivers can drop repeats.
+ */
+async function post(target: TargetRow, row: QueueRow): Promise<Attempt> {
+	const timestamp = String(Date.now());
+	const signature = await sign(target.secret, `${timestamp}.${row.body}`);
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+	try {
+		const res = await fetch(target.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'youtube-websocket-webhooks',
+				'X-Webhook-Id': row.id,
+				'X-Webhook-Attempt': String(row.attempts + 1),
+				'X-Webhook-Timestamp': timestamp,
+				'X-Webhook-Signature': `sha256=${signature}`,
+			},
+			body: row.body,
+			signal: controller.signal,
+		});
+		if (res.ok) return { ok: true, status: res.status };
+		// Other client errors will fail the same way every time
+		const retry = res.status >= 500 || res.status === 408 || res.status === 429;
+		return {
+			ok: false,
+			status: res.status,
+			error: `Status ${res.status}`,
+			retry,
+		};
+	} catch (e) {
+		const error = e instanceof Error ? e.message : String(e);
+		return { ok: false, error, retry: true };
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+async function sign(secret: string, payload: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+	return toHex(new Uint8Array(mac));
+}
+
+function randomSecret(): string {
+	return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+function toHex(bytes: Uint8Array): string {
+	return [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toTarget(row: TargetRow): WebhookTarget {
+	return {
+		id: row.id,
+		url: row.url,
+		events: row.events ? JSON.parse(row.events) : undefined,
+		adapter: row.adapter as AdapterName,
+		createdAt: row.created_at,
+	};
+}
+
+/**
+ * Whether a hostname names this machine or a private network, which targets
+ * can't point at. IPv4 literals arrive normalized by URL, so `0x7f.1` is
+ * already `127.0.0.1` here.
+ */
+function isPrivateHost(hostname: string): boolean {
+	const host = hostname.toLowerCase().replace(/\.$/, '');
+	if (
+		host === 'localhost' ||
+		/\.(localhost|local|internal|lan|home\.arpa)$/.test(host)
+	) {
+		return true;
+	}
+
+	const ipv4 = /^(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(host);
+	if (ipv4) {
+		const [a = 0, b = 0] = ipv4.slice(1).map(Number);
+		return (
+			a === 0 ||
+			a === 10 ||
+			a === 127 ||
+			(a === 100 && b >= 64 && b <= 127) ||
+			(a === 169 && b === 254) ||
+			(a === 172 && b >= 16 && b <= 31) ||
+			(a === 192 && b === 168) ||
+			a >= 224
+		);
+	}
+
+	if (!host.startsWith('[')) return false;
+	const ipv6 = host.slice(1, -1);
+	// IPv4-mapped addresses, which URL writes as hex: [::ffff:7f00:1]
+	const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ipv6);
+	if (mapped) {
+		const high = parseInt(mapped[1] ?? '0', 16);
+		const low = parseInt(mapped[2] ?? '0', 16);
+		return isPrivateHost(
+			[high >> 8, high & 0xff, low >> 8, low & 0xff].join('.')
+		);
+	}
+	return (
+		ipv6 === '::' ||
+		ipv6 === '::1' ||
+		/^f[cd][0-9a-f]{0,2}:/.test(ipv6) ||
+		/^fe[89ab][0-9a-f]?:/.test(ipv6) ||
+		/^ff[0-9a-f]{0,2}:/.test(ipv6)
+	);
+}
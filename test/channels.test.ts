@@ -0,0 +1,34 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { pickLiveStream } from '@util/channels';
+
+const streams = [
+	{ videoId: 'aaaaaaaaaaa', title: 'Main stage' },
+	{ videoId: 'bbbbbbbbbbb', title: 'Backstage camera' },
+];
+
+function pick(query: string) {
+	const stream = pickLiveStream(streams, new URLSearchParams(query));
+	return stream.isOk() ? stream.value.videoId : stream.error;
+}
+
+describe('pickLiveStream', () => {
+	it('picks by index or title', () => {
+		assert.equal(pick(''), 'aaaaaaaaaaa');
+		assert.equal(pick('index=1'), 'bbbbbbbbbbb');
+		assert.equal(pick('title=BACK'), 'bbbbbbbbbbb');
+	});
+
+	it('rejects an index that is not a whole number from 0', () => {
+		for (const index of ['-1', '1.5', 'abc', '', '1e2']) {
+			assert.deepEqual(pick(`index=${index}`), [
+				'index must be a whole number from 0',
+				400,
+			]);
+		}
+	});
+
+	it('is not found past the last stream', () => {
+		assert.deepEqual(pick('index=2'), ['Stream not found', 404]);
+	});
+});
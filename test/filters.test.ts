@@ -0,0 +1,75 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { LiveChatAction } from '@util/types';
+import { ChatFilter, parseFilter } from '../src/filters';
+
+const deletion = {
+	markChatItemAsDeletedAction: {
+		deletedStateMessage: { runs: [{ text: '[message deleted]' }] },
+		targetItemId: 'ChwKGkNPblN4',
+	},
+} as unknown as LiveChatAction;
+
+const purge = {
+	markChatItemsByAuthorAsDeletedAction: {
+		deletedStateMessage: { runs: [{ text: '[message retracted]' }] },
+		externalChannelId: 'UCauthor',
+	},
+} as unknown as LiveChatAction;
+
+const message = {
+	addChatItemAction: {
+		item: {
+			liveChatTextMessageRenderer: {
+				id: 'ChwKGkNPblN4',
+				message: { runs: [{ text: 'hello' }] },
+				authorName: { simpleText: 'someone' },
+				authorExternalChannelId: 'UCauthor',
+				timestampUsec: '1700000000000000',
+			},
+		},
+	},
+} as unknown as LiveChatAction;
+
+describe('ChatFilter', () => {
+	const filter = new ChatFilter({ events: ['superchat'] });
+
+	it('lets deletions through an events filter', () => {
+		assert.ok(filter.matches(deletion));
+		assert.ok(filter.acceptsFrame(deletion, 'delete'));
+		assert.ok(filter.matches(purge));
+		assert.ok(filter.acceptsFrame(purge, 'author_purge'));
+	});
+
+	it('still drops other events the filter leaves out', () => {
+		assert.ok(!filter.acceptsFrame(message, 'message'));
+		assert.ok(filter.acceptsFrame(message, 'superchat'));
+	});
+});
+
+describe('parseFilter', () => {
+	it('rejects patterns that can backtrack exponentially', () => {
+		for (const match of [
+			'(a+)+$',
+			'(a|a)*$',
+			'((ab)*c)+',
+			'(\\w+\\s?){2,}$',
+			'(a)\\1',
+		]) {
+			assert.ok(parseFilter({ match }).isErr(), match);
+		}
+	});
+
+	it('accepts patterns that only repeat simple atoms', () => {
+		for (const match of [
+			'^!',
+			'(?:lol)+',
+			'^(!|\\?)\\w+',
+			'[(+]+',
+			'a{2}',
+			'(a+)?b',
+		]) {
+			assert.ok(parseFilter({ match }).isOk(), match);
+		}
+	});
+});
@@ -0,0 +1,28 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { Env } from '../src';
+import { IRCMessageAdapter } from '../src/adapters/irc';
+
+function commands(lines: string[]) {
+	return lines.map((line) => line.split(' ')[1]);
+}
+
+describe('IRCMessageAdapter', () => {
+	const adapter = new IRCMessageAdapter({} as Env, 'UCchannel');
+
+	it('holds chat until the client has joined', () => {
+		const socket = {} as WebSocket;
+		assert.ok(adapter.hasHandshake);
+		assert.ok(!adapter.completesHandshake('CAP REQ :twitch.tv/tags'));
+		assert.ok(!adapter.completesHandshake('PASS oauth:x\r\nNICK bot'));
+		assert.equal(adapter.receive(socket, 'NICK bot')[0]?.split(' ')[1], '001');
+		assert.ok(adapter.completesHandshake('JOIN #anything'));
+	});
+
+	it('welcomes clients that join without a NICK', () => {
+		const replies = adapter.receive({} as WebSocket, 'JOIN #anything');
+		const sent = commands(replies);
+		assert.equal(sent[0], '001');
+		assert.ok(sent.indexOf('001') < sent.indexOf('JOIN'));
+	});
+});
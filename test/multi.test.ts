@@ -0,0 +1,58 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { MultiStream } from '../src/multi';
+
+class FakeSocket extends EventTarget {
+	sent: string[] = [];
+
+	accept() {}
+
+	send(data: string) {
+		this.sent.push(data);
+	}
+
+	close() {}
+
+	receive(data: unknown) {
+		this.dispatchEvent(
+			new MessageEvent('message', { data: JSON.stringify(data) })
+		);
+	}
+}
+
+const message = {
+	type: 'message',
+	id: 'ChwKGkNPblN4',
+	unix: 1_700_000_000_000,
+	message: [{ text: '!so @someone' }],
+};
+const command = {
+	type: 'command',
+	command: 'so',
+	args: { user: 'someone' },
+	id: 'ChwKGkNPblN4',
+	message: '!so @someone',
+	unix: 1_700_000_000_000,
+};
+
+describe('MultiStream', () => {
+	it('keeps command events next to the message they were parsed from', () => {
+		const client = new FakeSocket();
+		const multi = new MultiStream(client as unknown as WebSocket);
+		const first = new FakeSocket();
+		const second = new FakeSocket();
+		multi.add(first as unknown as WebSocket, { videoId: 'aaaaaaaaaaa' });
+		multi.add(second as unknown as WebSocket, { videoId: 'bbbbbbbbbbb' });
+
+		// Both streams carry the same chat, as with a simulcast
+		first.receive([message, command]);
+		second.receive([message, command]);
+		first.receive({ type: 'stream_ended' });
+		second.receive({ type: 'stream_ended' });
+
+		const types = client.sent
+			.map((data) => JSON.parse(data).type)
+			.filter((type) => type === 'message' || type === 'command');
+		assert.deepEqual(types, ['message', 'command']);
+	});
+});
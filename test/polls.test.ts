@@ -0,0 +1,49 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { LiveChatAction } from '@util/types';
+import { YouTubePolls } from '../src/polls';
+
+const shown = {
+	showLiveChatActionPanelAction: {
+		panelToShow: {
+			liveChatActionPanelRenderer: {
+				id: 'panel-1',
+				contents: {
+					pollRenderer: {
+						liveChatPollId: 'poll-1',
+						choices: [
+							{ text: { simpleText: 'Yes' }, voteRatio: 0.75 },
+							{ text: { simpleText: 'No' }, voteRatio: 0.25 },
+						],
+						header: {
+							pollHeaderRenderer: {
+								pollQuestion: { simpleText: 'Encore?' },
+							},
+						},
+					},
+				},
+			},
+		},
+	},
+} as unknown as LiveChatAction;
+
+const closed = {
+	closeLiveChatActionPanelAction: { targetPanelId: 'panel-1' },
+} as unknown as LiveChatAction;
+
+describe('YouTubePolls', () => {
+	it('closes a poll it was restored with', () => {
+		const polls = new YouTubePolls();
+		assert.equal(polls.observe(shown)?.type, 'poll_update');
+
+		const stored = JSON.parse(JSON.stringify(polls));
+		const result = YouTubePolls.restore(stored).observe(closed);
+		assert.equal(result?.type, 'poll_result');
+		assert.equal(result?.id, 'poll-1');
+		assert.equal(result?.question, 'Encore?');
+		assert.deepEqual(
+			result?.options.map((option) => option.ratio),
+			[0.75, 0.25]
+		);
+	});
+});
@@ -0,0 +1,59 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseWebhookInput } from '../src/webhooks';
+
+function urlError(url: string) {
+	const input = parseWebhookInput({ url });
+	return input.isErr() ? input.error : undefined;
+}
+
+describe('parseWebhookInput', () => {
+	it('accepts public https targets', () => {
+		assert.equal(urlError('https://example.com/hook'), undefined);
+		assert.equal(urlError('https://93.184.216.34/hook'), undefined);
+	});
+
+	it('rejects plain http', () => {
+		assert.equal(urlError('http://example.com/hook'), 'url must be https');
+	});
+
+	it('rejects loopback and private hosts', () => {
+		for (const url of [
+			'https://localhost/hook',
+			'https://api.localhost/hook',
+			'https://127.0.0.1/hook',
+			'https://0x7f.1/hook',
+			'https://10.0.0.8/hook',
+			'https://172.20.1.1/hook',
+			'https://192.168.1.1/hook',
+			'https://169.254.169.254/latest/meta-data',
+			'https://100.64.0.1/hook',
+			'https://0.0.0.0/hook',
+			'https://[::1]/hook',
+			'https://[fd00::1]/hook',
+			'https://[fe80::1]/hook',
+			'https://[::ffff:127.0.0.1]/hook',
+		]) {
+			assert.equal(
+				urlError(url),
+				'url must not point to a private or loopback address',
+				url
+			);
+		}
+	});
+
+	it('allows http and private hosts when told to', () => {
+		for (const url of [
+			'http://localhost:8080/hook',
+			'https://192.168.1.1/hook',
+		]) {
+			const input = parseWebhookInput({ url }, { allowPrivate: true });
+			assert.ok(input.isOk(), url);
+		}
+		const ftp = parseWebhookInput(
+			{ url: 'ftp://localhost/hook' },
+			{ allowPrivate: true }
+		);
+		assert.ok(ftp.isErr());
+	});
+});
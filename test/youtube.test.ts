@@ -0,0 +1,54 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { LiveChatAction } from '@util/types';
+import { getActionKey } from '@util/youtube';
+
+const superchat = {
+	addChatItemAction: {
+		item: {
+			liveChatPaidMessageRenderer: {
+				id: 'ChwKGkNPblN4',
+				timestampUsec: '1700000000000000',
+				authorExternalChannelId: 'UCauthor',
+			},
+		},
+	},
+} as unknown as LiveChatAction;
+
+// Pins the Super Chat above, so it carries the same ID
+const ticker = {
+	addLiveChatTickerItemAction: {
+		item: {
+			liveChatTickerPaidMessageItemRenderer: {
+				id: 'ChwKGkNPblN4',
+				authorExternalChannelId: 'UCauthor',
+			},
+		},
+		durationSec: '120',
+	},
+} as unknown as LiveChatAction;
+
+const purge = {
+	markChatItemsByAuthorAsDeletedAction: {
+		deletedStateMessage: { runs: [{ text: '[message retracted]' }] },
+		externalChannelId: 'UCauthor',
+	},
+} as unknown as LiveChatAction;
+
+describe('getActionKey', () => {
+	it('tells a ticker apart from the Super Chat it pins', () => {
+		const keys = [getActionKey(superchat), getActionKey(ticker)];
+		assert.ok(keys[0]);
+		assert.ok(keys[1]);
+		assert.notEqual(keys[0], keys[1]);
+	});
+
+	it('keys repeats of the same chat item the same', () => {
+		assert.equal(getActionKey(superchat), getActionKey({ ...superchat }));
+	});
+
+	it('never dedupes a repeated purge of the same author', () => {
+		assert.equal(getActionKey(purge), undefined);
+		assert.equal(getActionKey({ ...purge }), undefined);
+	});
+});